@@ -0,0 +1,68 @@
+import { z } from "zod@next";
+import { BaseArgsSchema, createLogger, processCommands } from "../mod.ts";
+import { dirname, join } from "jsr:@std/path@^1.0.8";
+
+const SCRIPT_NAME = "subcommand_cli_example";
+
+async function main() {
+  const scriptDir = dirname(new URL(import.meta.url).pathname);
+  const logDirectoryPath = join(scriptDir, "cli_logs");
+
+  // BaseArgsSchema のオプションは全てのサブコマンドで共有される
+  const result = processCommands(Deno.args, {
+    zodSchema: BaseArgsSchema,
+    commandName: SCRIPT_NAME,
+    commandDescription: "サブコマンドを持つCLIのサンプルです。",
+    commands: {
+      greet: {
+        commandDescription: "挨拶を表示します",
+        zodSchema: z.object({
+          name: z.string().meta({
+            description: "あなたの名前",
+            alias: "N",
+          }),
+        }),
+      },
+      config: {
+        commandDescription: "設定を操作します",
+        commands: {
+          show: {
+            commandDescription: "設定を表示します",
+          },
+          set: {
+            commandDescription: "設定値を変更します",
+            zodSchema: z.object({
+              key: z.string().meta({ description: "設定キー" }),
+              value: z.string().meta({ description: "設定値" }),
+            }),
+          },
+        },
+      },
+    },
+  });
+
+  const logger = await createLogger(
+    SCRIPT_NAME,
+    result.args.logLevel,
+    logDirectoryPath,
+  );
+
+  // command で判別すると args の型が絞り込まれる
+  switch (result.command) {
+    case "greet":
+      logger.info(`こんにちは、${result.args.name}さん！`);
+      break;
+    case "config show":
+      logger.info("現在の設定を表示します。");
+      break;
+    case "config set":
+      logger.info(
+        `${result.args.key} を ${result.args.value} に設定しました。`,
+      );
+      break;
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -1,4 +1,25 @@
+export * from "./src/accounts.ts";
 export * from "./src/args.ts";
+export * from "./src/batch.ts";
+export * from "./src/clients.ts";
+export * from "./src/commands.ts";
+export * from "./src/completions.ts";
+export * from "./src/config.ts";
+export * from "./src/confirm.ts";
+export * from "./src/data_file.ts";
+export * from "./src/help.ts";
+export * from "./src/i18n.ts";
+export * from "./src/log_format.ts";
+export * from "./src/log_rotation.ts";
+export * from "./src/log_viewer.ts";
 export * from "./src/logger.ts";
+export * from "./src/networks.ts";
+export * from "./src/output.ts";
+export * from "./src/progress.ts";
+export * from "./src/prompt.ts";
+export * from "./src/redact.ts";
+export * from "./src/run_context.ts";
+export * from "./src/runner.ts";
 export * from "./src/schemas.ts";
+export * from "./src/table.ts";
 export * from "./src/utils.ts";
@@ -0,0 +1,466 @@
+import { createDecipheriv, createHash, pbkdf2, scrypt } from "node:crypto";
+import { promisify } from "node:util";
+import { parse as parseDotenv } from "jsr:@std/dotenv@^0.225.5/parse";
+import { err, ok, type Result } from "neverthrow";
+import { type Hex, keccak256 } from "viem";
+import {
+  english,
+  type LocalAccount,
+  mnemonicToAccount,
+  privateKeyToAccount,
+} from "viem/accounts";
+import { canReadEnv, readEnv } from "./config.ts";
+import { isInteractiveTerminal, promptSecret } from "./prompt.ts";
+import { registerSecretValues } from "./redact.ts";
+
+/**
+ * loadAccount・loadAccounts に渡す引数
+ * EthArgsSchema に MnemonicArgsSchema などを結合したスキーマの解析結果をそのまま渡せます。
+ */
+export interface AccountArgs {
+  /** 16進数の秘密鍵 */
+  privateKey?: string;
+  /** 複数の秘密鍵 (loadAccounts でのみ使用) */
+  privateKeys?: string[];
+  /** BIP-39のニーモニック (英単語) */
+  mnemonic?: string;
+  /** ニーモニックから導出するアドレスのインデックス (m/44'/60'/0'/0/{addressIndex}) */
+  addressIndex?: number;
+  /** ニーモニックから導出するパス (指定した場合は addressIndex より優先) */
+  derivationPath?: string;
+  /** ニーモニックから導出するアカウントの数 (loadAccounts でのみ使用) */
+  accountCount?: number;
+  /** 暗号化されたJSONキーストアファイルのパス */
+  keystore?: string;
+  /** キーストアのパスワード (省略時は端末で入力を求める) */
+  keystorePassword?: string;
+  /** PRIVATE_KEY, PRIVATE_KEYS, MNEMONIC などを記述した .env 形式のファイルのパス */
+  envFile?: string;
+}
+
+// 秘密鍵の形式 (0x の有無を問わない64桁の16進数)
+const PRIVATE_KEY_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+const mnemonicWordIndexes = new Map(
+  english.map((word, index) => [word, index]),
+);
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// scrypt をPromiseで扱うヘルパー関数 (promisify ではオプション付きの形を推論できないため)
+function scryptAsync(
+  password: string,
+  salt: Uint8Array,
+  keyLength: number,
+  options: { N: number; r: number; p: number; maxmem: number },
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) =>
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      options,
+      (error, derivedKey) => error ? reject(error) : resolve(derivedKey),
+    )
+  );
+}
+
+/**
+ * 秘密鍵の文字列を検証し、0x 付きの形式に変換する関数
+ * エラーメッセージには秘密鍵の値を含めません。検証した秘密鍵はログでマスクされるよう
+ * registerSecretValues で登録します (0x の有無のどちらで出力されてもマスクされる)。
+ * @param value 秘密鍵 (0x の有無は問わない)
+ * @returns 0x 付きの秘密鍵を含むResult
+ */
+export function parsePrivateKey(value: string): Result<Hex, Error> {
+  const trimmed = value.trim();
+  if (!PRIVATE_KEY_PATTERN.test(trimmed)) {
+    return err(
+      new Error(
+        `Invalid private key: expected 64 hex characters with an optional 0x prefix (got ${trimmed.length} characters)`,
+      ),
+    );
+  }
+  const privateKey =
+    (trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`) as Hex;
+  registerSecretValues(privateKey, privateKey.slice(2));
+  return ok(privateKey);
+}
+
+/**
+ * BIP-39のニーモニックを検証し、単語の間の空白を正規化する関数
+ * 単語数・単語がBIP-39の英単語に含まれるか・チェックサムを検証します。
+ * エラーメッセージにはニーモニックの単語を含めません。
+ * @param value ニーモニック
+ * @returns 正規化したニーモニックを含むResult
+ */
+export function parseMnemonic(value: string): Result<string, Error> {
+  const words = value.trim().toLowerCase().split(/\s+/);
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return err(
+      new Error(
+        `Invalid mnemonic: expected ${
+          MNEMONIC_WORD_COUNTS.join(", ")
+        } words (got ${words.length})`,
+      ),
+    );
+  }
+  const unknownPositions = words.flatMap((word, index) =>
+    mnemonicWordIndexes.has(word) ? [] : [index + 1]
+  );
+  if (unknownPositions.length > 0) {
+    return err(
+      new Error(
+        `Invalid mnemonic: words at positions ${
+          unknownPositions.join(", ")
+        } are not in the BIP-39 English wordlist`,
+      ),
+    );
+  }
+
+  // 11ビットずつの単語の番号を連結し、エントロピーとチェックサムに分ける
+  const bits = words
+    .map((word) => mnemonicWordIndexes.get(word)!.toString(2).padStart(11, "0"))
+    .join("");
+  const entropyBitLength = bits.length / 33 * 32;
+  const entropy = new Uint8Array(entropyBitLength / 8);
+  for (let index = 0; index < entropy.length; index++) {
+    entropy[index] = parseInt(bits.slice(index * 8, index * 8 + 8), 2);
+  }
+  const hashBits = [...createHash("sha256").update(entropy).digest()]
+    .map((byte) => byte.toString(2).padStart(8, "0"))
+    .join("");
+  const checksumBitLength = bits.length - entropyBitLength;
+  if (
+    bits.slice(entropyBitLength) !== hashBits.slice(0, checksumBitLength)
+  ) {
+    return err(new Error("Invalid mnemonic: checksum does not match"));
+  }
+  return ok(words.join(" "));
+}
+
+// ニーモニックからアカウントを導出するヘルパー関数
+function deriveMnemonicAccount(
+  mnemonic: string,
+  addressIndex: number,
+  derivationPath?: string,
+): Result<LocalAccount, Error> {
+  try {
+    return ok(
+      derivationPath
+        ? mnemonicToAccount(mnemonic, {
+          path: derivationPath as `m/44'/60'/${string}`,
+        })
+        : mnemonicToAccount(mnemonic, { addressIndex }),
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to derive account from mnemonic: ${errorMessage}`),
+    );
+  }
+}
+
+// 16進数の文字列をバイト列に変換するヘルパー関数
+function hexToBytes(hex: string): Uint8Array {
+  const normalized = hex.startsWith("0x") ? hex.slice(2) : hex;
+  return Uint8Array.from(
+    normalized.match(/.{2}/g) ?? [],
+    (byte) => parseInt(byte, 16),
+  );
+}
+
+// キーストアファイルの暗号化に関する部分 (Web3 Secret Storage Definition v3)
+interface KeystoreCrypto {
+  cipher: string;
+  ciphertext: string;
+  cipherparams: { iv: string };
+  kdf: string;
+  kdfparams: {
+    dklen: number;
+    salt: string;
+    n?: number;
+    r?: number;
+    p?: number;
+    c?: number;
+    prf?: string;
+  };
+  mac: string;
+}
+
+/**
+ * 暗号化されたJSONキーストアファイル (Web3 Secret Storage v3) から秘密鍵を取り出す関数
+ * geth や Foundry (cast wallet) などが作成する scrypt / pbkdf2 形式に対応しています。
+ * @param json キーストアファイルの内容
+ * @param password キーストアのパスワード
+ * @returns 0x 付きの秘密鍵を含むResult
+ */
+export async function decryptKeystore(
+  json: string,
+  password: string,
+): Promise<Result<Hex, Error>> {
+  let keystoreCrypto: KeystoreCrypto;
+  try {
+    const keystore = JSON.parse(json);
+    keystoreCrypto = keystore.crypto ?? keystore.Crypto;
+    if (keystore.version !== 3 || typeof keystoreCrypto !== "object") {
+      return err(
+        new Error("Unsupported keystore: expected a version 3 keystore"),
+      );
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid keystore JSON: ${errorMessage}`));
+  }
+  if (keystoreCrypto.cipher !== "aes-128-ctr") {
+    return err(
+      new Error(`Unsupported keystore cipher: ${keystoreCrypto.cipher}`),
+    );
+  }
+
+  const { kdf, kdfparams } = keystoreCrypto;
+  const salt = hexToBytes(kdfparams.salt);
+  let derivedKey: Uint8Array;
+  try {
+    if (kdf === "scrypt") {
+      const { n = 0, r = 0, p = 0 } = kdfparams;
+      derivedKey = await scryptAsync(password, salt, kdfparams.dklen, {
+        N: n,
+        r,
+        p,
+        // 標準のパラメータ (n = 262144) では既定のメモリ上限を超えるため、必要な分を許可する
+        maxmem: 2 * 128 * r * (n + p + 2),
+      });
+    } else if (kdf === "pbkdf2" && kdfparams.prf === "hmac-sha256") {
+      derivedKey = await pbkdf2Async(
+        password,
+        salt,
+        kdfparams.c ?? 0,
+        kdfparams.dklen,
+        "sha256",
+      );
+    } else {
+      return err(new Error(`Unsupported keystore KDF: ${kdf}`));
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to derive keystore key: ${errorMessage}`));
+  }
+
+  // パスワードが正しいかを、導出した鍵の後半と暗号文のMACで確認する
+  const ciphertext = hexToBytes(keystoreCrypto.ciphertext);
+  const mac = keccak256(
+    new Uint8Array([...derivedKey.slice(16, 32), ...ciphertext]),
+  );
+  if (
+    mac.slice(2).toLowerCase() !==
+      keystoreCrypto.mac.replace(/^0x/, "").toLowerCase()
+  ) {
+    return err(new Error("Failed to decrypt keystore: incorrect password"));
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.slice(0, 16),
+    hexToBytes(keystoreCrypto.cipherparams.iv),
+  );
+  const privateKey = new Uint8Array([
+    ...decipher.update(ciphertext),
+    ...decipher.final(),
+  ]);
+  return parsePrivateKey(
+    [...privateKey].map((byte) => byte.toString(16).padStart(2, "0")).join(""),
+  );
+}
+
+// .env 形式のファイルの値で、指定されていない引数を補うヘルパー関数
+function mergeEnvFile(args: AccountArgs): Result<AccountArgs, Error> {
+  if (!args.envFile) return ok(args);
+  let values: Record<string, string>;
+  try {
+    values = parseDotenv(Deno.readTextFileSync(args.envFile));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to read env file ${args.envFile}: ${errorMessage}`),
+    );
+  }
+  // ファイルから読み込んだ秘密情報も、ログやエラー出力でマスクする
+  for (
+    const key of [
+      "PRIVATE_KEY",
+      "PRIVATE_KEYS",
+      "MNEMONIC",
+      "KEYSTORE_PASSWORD",
+    ]
+  ) {
+    if (values[key]) {
+      registerSecretValues(values[key], ...values[key].split(","));
+    }
+  }
+  return ok({
+    ...args,
+    privateKey: args.privateKey ?? values.PRIVATE_KEY,
+    privateKeys: args.privateKeys ??
+      values.PRIVATE_KEYS?.split(",").map((key) => key.trim()),
+    mnemonic: args.mnemonic ?? values.MNEMONIC,
+    keystore: args.keystore ?? values.KEYSTORE,
+    keystorePassword: args.keystorePassword ?? values.KEYSTORE_PASSWORD,
+  });
+}
+
+// キーストアファイルを読み込み、アカウントを作成するヘルパー関数
+async function loadKeystoreAccount(
+  path: string,
+  password?: string,
+): Promise<Result<LocalAccount, Error>> {
+  let json: string;
+  try {
+    json = await Deno.readTextFile(path);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read keystore ${path}: ${errorMessage}`));
+  }
+
+  let keystorePassword = password;
+  if (keystorePassword === undefined) {
+    if (!isInteractiveTerminal()) {
+      return err(
+        new Error(
+          "Keystore password is required: pass --keystore-password or set KEYSTORE_PASSWORD",
+        ),
+      );
+    }
+    keystorePassword = promptSecret(`${path} のパスワード:`) ?? "";
+  }
+
+  const privateKeyResult = await decryptKeystore(json, keystorePassword);
+  if (privateKeyResult.isErr()) {
+    return err(new Error(`${privateKeyResult.error.message} (${path})`));
+  }
+  registerSecretValues(privateKeyResult.value);
+  return ok(privateKeyToAccount(privateKeyResult.value));
+}
+
+/**
+ * 引数で指定された署名元から、アカウントを1つ読み込む関数
+ * 署名元は privateKey・mnemonic・keystore のいずれか1つを指定します (複数指定するとエラー)。
+ * envFile を指定した場合は、ファイルの PRIVATE_KEY・MNEMONIC・KEYSTORE・KEYSTORE_PASSWORD で
+ * 指定されていない引数を補います。
+ * @param args 署名元を指定する引数 (MnemonicArgsSchema などを結合したスキーマの解析結果)
+ * @returns アカウントを含むResult
+ */
+export async function loadAccount(
+  args: AccountArgs,
+): Promise<Result<LocalAccount, Error>> {
+  const mergedResult = mergeEnvFile(args);
+  if (mergedResult.isErr()) return err(mergedResult.error);
+  const merged = mergedResult.value;
+
+  const sources = (["privateKey", "mnemonic", "keystore"] as const).filter((
+    key,
+  ) => merged[key]);
+  if (sources.length === 0) {
+    // 署名元の引数がない場合は、getAccount と同じく環境変数 PRIVATE_KEY を使用する
+    if (!canReadEnv("PRIVATE_KEY")) {
+      return err(
+        new Error(
+          "Reading the PRIVATE_KEY environment variable requires --allow-env (or pass --private-key, --mnemonic or --keystore)",
+        ),
+      );
+    }
+    const envPrivateKey = readEnv("PRIVATE_KEY");
+    if (envPrivateKey) {
+      const privateKeyResult = parsePrivateKey(envPrivateKey);
+      if (privateKeyResult.isErr()) return err(privateKeyResult.error);
+      return ok(privateKeyToAccount(privateKeyResult.value));
+    }
+    return err(
+      new Error(
+        "No signer was specified: pass --private-key, --mnemonic or --keystore (or set PRIVATE_KEY, MNEMONIC or KEYSTORE)",
+      ),
+    );
+  }
+  if (sources.length > 1) {
+    return err(
+      new Error(
+        `Multiple signers were specified (${
+          sources.join(", ")
+        }): specify only one`,
+      ),
+    );
+  }
+
+  if (merged.privateKey) {
+    const privateKeyResult = parsePrivateKey(merged.privateKey);
+    if (privateKeyResult.isErr()) return err(privateKeyResult.error);
+    return ok(privateKeyToAccount(privateKeyResult.value));
+  }
+  if (merged.mnemonic) {
+    const mnemonicResult = parseMnemonic(merged.mnemonic);
+    if (mnemonicResult.isErr()) return err(mnemonicResult.error);
+    return deriveMnemonicAccount(
+      mnemonicResult.value,
+      merged.addressIndex ?? 0,
+      merged.derivationPath,
+    );
+  }
+  return await loadKeystoreAccount(merged.keystore!, merged.keystorePassword);
+}
+
+/**
+ * 引数で指定された署名元から、複数のアカウントを読み込む関数 (バッチ処理用)
+ * - privateKeys: 指定した全ての秘密鍵のアカウント
+ * - mnemonic と accountCount: addressIndex から accountCount 個のアドレスのアカウント
+ * いずれも指定されていない場合は、loadAccount で読み込んだ1つのアカウントを返します。
+ * @param args 署名元を指定する引数 (MultipleAccountsArgsSchema などを結合したスキーマの解析結果)
+ * @returns アカウントの一覧を含むResult
+ */
+export async function loadAccounts(
+  args: AccountArgs,
+): Promise<Result<LocalAccount[], Error>> {
+  const mergedResult = mergeEnvFile(args);
+  if (mergedResult.isErr()) return err(mergedResult.error);
+  const merged = mergedResult.value;
+
+  if (merged.privateKeys && merged.privateKeys.length > 0) {
+    const accounts: LocalAccount[] = [];
+    for (const [index, privateKey] of merged.privateKeys.entries()) {
+      const privateKeyResult = parsePrivateKey(privateKey);
+      if (privateKeyResult.isErr()) {
+        return err(
+          new Error(`privateKeys[${index}]: ${privateKeyResult.error.message}`),
+        );
+      }
+      accounts.push(privateKeyToAccount(privateKeyResult.value));
+    }
+    return ok(accounts);
+  }
+
+  if (merged.mnemonic && merged.accountCount !== undefined) {
+    if (merged.derivationPath) {
+      return err(
+        new Error(
+          "derivationPath cannot be combined with accountCount: use addressIndex to choose the first address",
+        ),
+      );
+    }
+    const mnemonicResult = parseMnemonic(merged.mnemonic);
+    if (mnemonicResult.isErr()) return err(mnemonicResult.error);
+    const accounts: LocalAccount[] = [];
+    const firstIndex = merged.addressIndex ?? 0;
+    for (let offset = 0; offset < merged.accountCount; offset++) {
+      const accountResult = deriveMnemonicAccount(
+        mnemonicResult.value,
+        firstIndex + offset,
+      );
+      if (accountResult.isErr()) return err(accountResult.error);
+      accounts.push(accountResult.value);
+    }
+    return ok(accounts);
+  }
+
+  const accountResult = await loadAccount(merged);
+  if (accountResult.isErr()) return err(accountResult.error);
+  return ok([accountResult.value]);
+}
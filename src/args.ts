@@ -1,5 +1,39 @@
 import { parseArgs, type ParseOptions } from "jsr:@std/cli@^1.0.15/parse-args";
-import { z } from "zod@next";
+import { err, ok, type Result } from "neverthrow";
+import type { z } from "zod@next";
+import { requestCompletionScript } from "./completions.ts";
+import {
+  type ConfigFile,
+  readConfigFile,
+  readEnv,
+  toEnvName,
+} from "./config.ts";
+import { formatHelpMessage, type HelpExample } from "./help.ts";
+import {
+  getMessages,
+  type LocaleOptions,
+  type Messages,
+  resolveLocale,
+} from "./i18n.ts";
+import { exitCodes, exitWithLogs } from "./logger.ts";
+import {
+  detectOutputFormat,
+  exitWithError,
+  type OutputFormat,
+} from "./output.ts";
+import {
+  isInteractiveTerminal,
+  promptConfirm,
+  promptSecret,
+  promptSelect,
+  promptText,
+} from "./prompt.ts";
+import {
+  REDACTED,
+  redactText,
+  registerSecretKeys,
+  registerSecretValues,
+} from "./redact.ts";
 
 /**
  * ヘルプメッセージのセクションを定義するインターフェース
@@ -9,17 +43,126 @@ export interface HelpSection {
   options: { [optionAndAlias: string]: string }; // 例: { "--network, -n": "接続するネットワーク" }
 }
 
+/**
+ * 引数の検証で見つかった個々の問題
+ */
+export interface ArgsIssue {
+  /** 問題のある引数のパス (例: ["network"]、位置引数の過不足は ["_"]) */
+  path: PropertyKey[];
+  /** Zodのissueコード、または "too_many_positionals" などの独自コード */
+  code: string;
+  message: string;
+}
+
+/**
+ * --help が指定され、ヘルプの表示が要求されたことを表すエラー
+ */
+export class HelpRequestedError extends Error {
+  readonly kind = "help";
+
+  constructor(readonly helpMessage: string, locale?: string) {
+    super(getMessages(locale).helpRequested);
+    this.name = "HelpRequestedError";
+  }
+}
+
+/**
+ * --completions が指定され、シェル補完スクリプトの出力が要求されたことを表すエラー
+ */
+export class CompletionsRequestedError extends Error {
+  readonly kind = "completions";
+
+  constructor(readonly script: string, locale?: string) {
+    super(getMessages(locale).completionsRequested);
+    this.name = "CompletionsRequestedError";
+  }
+}
+
+/**
+ * 引数の検証に失敗したことを表すエラー
+ * メッセージは locale の言語の validationFailed に、各問題のパスとメッセージを続けたものです。
+ */
+export class ArgsValidationError extends Error {
+  readonly kind = "validation";
+
+  constructor(
+    readonly commandName: string,
+    readonly issues: ArgsIssue[],
+    locale?: string,
+  ) {
+    super(
+      `${getMessages(locale).validationFailed} ${
+        issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", ")
+      }`,
+    );
+    this.name = "ArgsValidationError";
+  }
+}
+
+/**
+ * parseArgsSafe が返すエラーの型 (kind で判別可能)
+ */
+export type ParseArgsError =
+  | HelpRequestedError
+  | CompletionsRequestedError
+  | ArgsValidationError;
+
+/**
+ * 位置引数の定義
+ * キーの順序がそのまま位置引数の順序になります。最後の位置引数に z.array を指定すると、
+ * 残りの位置引数を全て受け取る可変長引数になります (最後以外の位置引数には指定できません)。
+ * @example { file: z.string(), output: z.string().optional(), more: z.array(z.string()) }
+ */
+export type PositionalArgsShape = Record<string, z.ZodTypeAny>;
+
+/**
+ * 引数の値の取得元
+ * 優先順位は cli → env → config → prompt (対話的な入力) → default です。
+ */
+export type ArgSource = "cli" | "env" | "config" | "prompt" | "default";
+
+/**
+ * コマンドライン以外の値の取得元 (環境変数・設定ファイル) に関する設定
+ */
+export interface ArgSourceOptions {
+  /**
+   * 環境変数名を自動生成する際の接頭辞
+   * 例: "MYTOOL" を指定すると rpcUrl は MYTOOL_RPC_URL から読み込まれます。
+   * `.meta({ env: "RPC_URL" })` で個別に指定した環境変数名が優先されます。
+   */
+  envPrefix?: string;
+  /** --config <path> オプションを追加し、JSON/JSONC/TOML/.env 形式の設定ファイルから値を読み込む */
+  configFile?: boolean;
+  /**
+   * 必須の引数が指定されていない場合に、対話的に入力を求める
+   * 標準入力が端末 (TTY) でない場合やCI環境では入力を求めません。
+   */
+  interactive?: boolean;
+}
+
 /**
  * processArgs関数に渡すオプションを定義するインターフェース
  */
-// Reason: ZodObject's generic type parameters are complex.
-// deno-lint-ignore no-explicit-any
-export interface ProcessArgsOptions<S extends z.ZodObject<any, any>> {
+export interface ProcessArgsOptions<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+> extends ArgSourceOptions, LocaleOptions {
   zodSchema: S;
+  positionals?: P;
   parseArgsOptions?: ParseOptions;
   helpSections?: HelpSection[];
   commandName: string;
   commandDescription?: string;
+  /** ヘルプメッセージに表示する使用例 */
+  examples?: HelpExample[];
+  /**
+   * 未知のオプションや、同じオプションへの異なる値の重複指定をエラーにする (デフォルト: true)
+   * false の場合は従来通り未知のオプションを無視し、重複指定は最後の値を採用します。
+   */
+  strict?: boolean;
   customHelpGeneration?: (
     schema: S,
     commandName: string,
@@ -38,23 +181,446 @@ function kebabToCamel(str: string): string {
   return str.replace(/-([a-z])/g, (g) => g[1].toUpperCase());
 }
 
+// ネストしたオプション (--gas.max-fee) のオブジェクトのキーを再帰的にキャメルケースに変換するヘルパー関数
+function camelCaseNestedKeys(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map((
+      [key, nestedValue],
+    ) => [kebabToCamel(key), camelCaseNestedKeys(nestedValue)]),
+  );
+}
+
+// ZodDefault, ZodOptional, パイプ(transform) などのラッパーを剥がした内側のスキーマを返すヘルパー関数
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let unwrapped = schema;
+  // deno-lint-ignore no-explicit-any
+  let def = unwrapped._zod.def as any;
+  while (
+    def.type === "default" ||
+    def.type === "optional" ||
+    def.type === "nullable" ||
+    def.type === "readonly" ||
+    def.type === "catch" ||
+    def.type === "nonoptional" ||
+    def.type === "pipe"
+  ) {
+    unwrapped = def.type === "pipe" ? def.in : def.innerType;
+    // deno-lint-ignore no-explicit-any
+    def = unwrapped._zod.def as any;
+  }
+  return unwrapped;
+}
+
+// スキーマのデフォルト値を取得するヘルパー関数 (デフォルト値がなければ undefined)
+function getSchemaDefault(schema: z.ZodTypeAny): unknown {
+  let current = schema;
+  // deno-lint-ignore no-explicit-any
+  let def = current._zod.def as any;
+  while (def.innerType || def.type === "pipe") {
+    if (def.type === "default") {
+      return typeof def.defaultValue === "function"
+        ? def.defaultValue()
+        : def.defaultValue;
+    }
+    current = def.type === "pipe" ? def.in : def.innerType;
+    // deno-lint-ignore no-explicit-any
+    def = current._zod.def as any;
+  }
+  return undefined;
+}
+
+// 可変長の位置引数 (z.array) かどうかを判定するヘルパー関数
+function isVariadicPositional(schema: z.ZodTypeAny): boolean {
+  return unwrapSchema(schema)._zod.def.type === "array";
+}
+
+// 位置引数が必須かどうかを判定するヘルパー関数 (空配列を受け付けない可変長引数は必須とみなす)
+function isRequiredPositional(schema: z.ZodTypeAny): boolean {
+  return isVariadicPositional(schema)
+    ? !schema.safeParse([]).success
+    : !schema.isOptional();
+}
+
+// 位置引数の表示名を生成するヘルパー関数 (例: "<file>", "[output]", "[more...]")
+function formatPositionalName(key: string, schema: z.ZodTypeAny): string {
+  const name = `${camelToKebab(key)}${
+    isVariadicPositional(schema) ? "..." : ""
+  }`;
+  return isRequiredPositional(schema) ? `<${name}>` : `[${name}]`;
+}
+
 /**
- * ZodスキーマからparseArgsのオプションとヘルプセクションを自動生成する内部関数
+ * 位置引数の定義から使用方法の行に表示する文字列を生成する関数
+ * @param positionals 位置引数の定義
+ * @returns 例: "<file> [output] [more...]"
  */
+function formatPositionalsUsage(positionals: PositionalArgsShape): string {
+  return Object.entries(positionals).map(([key, schema]) =>
+    formatPositionalName(key, schema)
+  ).join(" ");
+}
 
-interface InternalGeneratedParseOptions
-  extends Omit<ParseOptions, "string" | "boolean" | "alias" | "default"> {
+/**
+ * 位置引数の定義からヘルプセクションを生成する関数
+ * @param positionals 位置引数の定義
+ * @param locale メッセージの言語
+ * @returns 位置引数のヘルプセクション
+ */
+function generatePositionalsHelpSection(
+  positionals: PositionalArgsShape,
+  locale?: string,
+): HelpSection {
+  const messages = getMessages(locale);
+  const helpOptions: { [positional: string]: string } = {};
+  for (const [key, schema] of Object.entries(positionals)) {
+    let helpText = describeField(schema, resolveLocale(locale));
+    if (isRequiredPositional(schema)) {
+      helpText += ` (${messages.required})`;
+    }
+    helpOptions[formatPositionalName(key, schema)] = helpText;
+  }
+  return { title: messages.positionalsTitle, options: helpOptions };
+}
+
+/**
+ * 位置引数の定義を検証する関数
+ * 可変長引数 (z.array) は残りの位置引数を全て受け取るため、最後の位置引数以外には指定できません。
+ * @param positionals 位置引数の定義
+ * @throws 最後以外の位置引数に z.array が指定されている場合
+ */
+function validatePositionals(positionals: PositionalArgsShape): void {
+  const keys = Object.keys(positionals);
+  const variadicKey = keys.slice(0, -1).find((key) =>
+    isVariadicPositional(positionals[key])
+  );
+  if (variadicKey !== undefined) {
+    throw new Error(
+      `Variadic positional "${variadicKey}" must be the last positional argument (defined order: ${
+        keys.join(", ")
+      })`,
+    );
+  }
+}
+
+/**
+ * 位置引数の値を定義順に名前へ割り当てる関数
+ * @param positionals 位置引数の定義
+ * @param values parseArgs が返した位置引数 (`_`) の配列
+ * @returns 名前付きの位置引数と、定義より多く指定された余分な位置引数
+ */
+function assignPositionals(
+  positionals: PositionalArgsShape,
+  values: string[],
+): { assigned: Record<string, unknown>; extra: string[] } {
+  const assigned: Record<string, unknown> = {};
+  let index = 0;
+  for (const [key, schema] of Object.entries(positionals)) {
+    if (isVariadicPositional(schema)) {
+      assigned[key] = values.slice(index);
+      index = values.length;
+      break;
+    }
+    if (index < values.length) {
+      assigned[key] = values[index];
+      index++;
+    }
+  }
+  return { assigned, extra: values.slice(index) };
+}
+
+interface InternalGeneratedParseOptions extends
+  Omit<
+    ParseOptions,
+    "string" | "boolean" | "alias" | "default" | "collect" | "negatable"
+  > {
   string: string[];
   boolean: string[];
+  collect: string[];
+  negatable: string[];
   alias: Record<string, string>;
   default: Record<string, unknown>;
 }
 
+// Zodスキーマのメタデータのうち、引数解析で利用するもの
+interface ArgsFieldMeta {
+  alias?: string;
+  description?: string;
+  /** 値を読み込む環境変数名 */
+  env?: string;
+  /** 秘密情報 (秘密鍵など) であることを示す。対話的な入力時に伏せ字で表示される */
+  secret?: boolean;
+  /** 配列オプションの区切り文字 (デフォルト: ","、false で分割しない) */
+  separator?: string | false;
+  /** シェル補完で値としてファイル・ディレクトリのパスを補完する */
+  completion?: "file" | "directory";
+  /** 言語ごとの説明 (例: { en: "Log level" })。該当する言語がない場合は description を使用する */
+  descriptions?: Record<string, string>;
+  /** ヘルプでオプションをまとめるグループ名 (セクションの見出し) */
+  group?: string;
+  /** 言語ごとのグループ名 (例: { en: "Ethereum options" }) */
+  groups?: Record<string, string>;
+  /** 非推奨のオプションであることを示す。文字列の場合は代替手段などの補足として表示される */
+  deprecated?: boolean | string;
+  /** ヘルプとシェル補完に表示しない */
+  hidden?: boolean;
+}
+
+// フィールドの説明を言語に合わせて取得するヘルパー関数
+function describeField(schema: z.ZodTypeAny, locale: string): string {
+  const meta: ArgsFieldMeta | undefined = schema.meta?.();
+  // 言語ごとの説明、meta.description、schema.description の順に優先する
+  return meta?.descriptions?.[locale] || meta?.description ||
+    schema.description || "";
+}
+
+// スキーマの型を表すヘルプ用の型ヒントを生成するヘルパー関数 (例: "string", "a|b")
+function describeTypeHint(schema: z.ZodTypeAny): string {
+  const unwrapped = unwrapSchema(schema);
+  // deno-lint-ignore no-explicit-any
+  const def = unwrapped._zod.def as any;
+  switch (def.type) {
+    case "enum":
+    case "literal":
+      return [...(unwrapped._zod.values ?? [])].map(String).join("|");
+    case "union":
+      return (def.options as z.ZodTypeAny[]).map(describeTypeHint).join("|");
+    case "array":
+      return describeTypeHint(def.element);
+    case "string":
+    case "number":
+    case "bigint":
+    case "date":
+      return def.type;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Zodスキーマから生成されるオプションの情報
+ * ヘルプやシェル補完スクリプトの生成に使用します。
+ */
+export interface SchemaOptionInfo {
+  /** キャメルケースのキーのパス (例: ["gas", "maxFee"]) */
+  path: string[];
+  /** ケバブケースのオプション名 (例: "gas.max-fee") */
+  name: string;
+  alias?: string;
+  description: string;
+  /** ラッパーを剥がしたスキーマの型 (例: "string", "boolean", "array") */
+  type: string;
+  /** 配列の場合の要素の型 */
+  elementType?: string;
+  /** ヘルプに表示する値の型ヒント (例: "<string>", "<a|b>...") */
+  typeHint: string;
+  /** 列挙型・リテラル型で指定できる値の一覧 */
+  choices?: string[];
+  /** シェル補完で値として補完する対象 (meta の completion で指定) */
+  completion?: "file" | "directory";
+  envName?: string;
+  defaultValue?: unknown;
+  required: boolean;
+  /** ヘルプでオプションをまとめるグループ名 (言語に合わせたもの) */
+  group?: string;
+  deprecated?: boolean | string;
+  hidden?: boolean;
+  /** 秘密情報 (meta の secret で指定) */
+  secret?: boolean;
+}
+
+// 列挙型・リテラル型 (およびそれらの配列・ユニオン) で指定できる値の一覧を返すヘルパー関数
+function describeChoices(schema: z.ZodTypeAny): string[] | undefined {
+  const unwrapped = unwrapSchema(schema);
+  // deno-lint-ignore no-explicit-any
+  const def = unwrapped._zod.def as any;
+  switch (def.type) {
+    case "enum":
+    case "literal":
+      return [...(unwrapped._zod.values ?? [])].map(String);
+    case "array":
+      return describeChoices(def.element);
+    case "union": {
+      const optionChoices = (def.options as z.ZodTypeAny[]).map(
+        describeChoices,
+      );
+      if (optionChoices.some((choices) => choices === undefined)) {
+        return undefined;
+      }
+      return [...new Set(optionChoices.flat() as string[])];
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Zodオブジェクトスキーマの各フィールドから、オプションの情報を収集する関数
+ * ネストしたオブジェクトは "--gas.limit" のようなドット区切りのオプションとして展開されます。
+ * @param schema 解析対象のZodオブジェクトスキーマ
+ * @param sourceOptions 環境変数・設定ファイル・言語に関する設定（環境変数名と説明の決定に使用）
+ * @param parentPath ネストしたオブジェクトのキーのパス
+ * @returns オプションの情報の一覧
+ */
+export function collectSchemaOptions(
+  // deno-lint-ignore no-explicit-any
+  schema: z.ZodObject<any, any>,
+  sourceOptions: ArgSourceOptions & LocaleOptions = {},
+  parentPath: string[] = [],
+): SchemaOptionInfo[] {
+  const locale = resolveLocale(sourceOptions.locale);
+  const optionInfos: SchemaOptionInfo[] = [];
+  for (const key in schema.shape) {
+    const fieldSchema = schema.shape[key] as z.ZodTypeAny;
+    const path = [...parentPath, key];
+
+    // meta を取得 (Zod公式ドキュメント準拠)
+    const meta: ArgsFieldMeta | undefined = fieldSchema.meta?.();
+
+    // ZodDefault, ZodOptional などのラッパーを剥がした型で判定
+    const unwrappedSchema = unwrapSchema(fieldSchema);
+    const unwrappedType = unwrappedSchema._zod.def.type;
+
+    if (unwrappedType === "object") {
+      optionInfos.push(
+        ...collectSchemaOptions(
+          // deno-lint-ignore no-explicit-any
+          unwrappedSchema as z.ZodObject<any, any>,
+          sourceOptions,
+          path,
+        ),
+      );
+      continue;
+    }
+
+    const elementType = unwrappedType === "array"
+      ? unwrapSchema(
+        // deno-lint-ignore no-explicit-any
+        (unwrappedSchema._zod.def as any).element,
+      )._zod.def.type
+      : undefined;
+
+    let typeHint = describeTypeHint(fieldSchema);
+    if (typeHint) {
+      typeHint = unwrappedType === "array"
+        ? `<${typeHint}>...`
+        : `<${typeHint}>`;
+    }
+
+    optionInfos.push({
+      path,
+      name: path.map(camelToKebab).join("."),
+      alias: meta?.alias,
+      description: describeField(fieldSchema, locale),
+      type: unwrappedType,
+      elementType,
+      typeHint,
+      choices: describeChoices(fieldSchema),
+      completion: meta?.completion,
+      envName: resolveEnvName(path, meta, sourceOptions),
+      defaultValue: getSchemaDefault(fieldSchema),
+      required: !fieldSchema.isOptional(), // isOptionalは元のfieldSchemaで判定（Optional/Defaultラッパーの有無）
+      group: meta?.groups?.[locale] || meta?.group,
+      deprecated: meta?.deprecated,
+      hidden: meta?.hidden,
+      secret: meta?.secret,
+    });
+  }
+  return optionInfos;
+}
+
+/**
+ * 収集したオプションの情報をparseArgsのオプションとヘルプに登録する内部関数
+ * ヘルプはオプションのグループごとのセクションに登録し、グループのないオプションは defaultSection に登録します。
+ */
+function registerSchemaOptions(
+  optionInfos: SchemaOptionInfo[],
+  generatedParseOptions: InternalGeneratedParseOptions,
+  helpSections: Map<string, HelpSection>,
+  defaultSection: HelpSection,
+  messages: Messages,
+): void {
+  for (const optionInfo of optionInfos) {
+    const kebabKey = optionInfo.name;
+    let optionName = `--${kebabKey}`;
+
+    // エイリアス処理
+    if (optionInfo.alias) {
+      optionName += `, -${optionInfo.alias}`;
+      generatedParseOptions.alias[optionInfo.alias] = kebabKey;
+    }
+
+    if (optionInfo.defaultValue !== undefined) {
+      generatedParseOptions.default[kebabKey] = optionInfo.defaultValue;
+    }
+
+    // 型定義の収集 (エイリアスも型リストに追加する)
+    const keys = optionInfo.alias ? [kebabKey, optionInfo.alias] : [kebabKey];
+    if (optionInfo.type === "boolean") {
+      generatedParseOptions.boolean.push(...keys);
+      generatedParseOptions.negatable.push(kebabKey);
+    } else if (optionInfo.type === "array") {
+      // 配列は "--to a --to b" のように繰り返し指定できるようにする
+      generatedParseOptions.collect.push(...keys);
+      if (optionInfo.elementType === "boolean") {
+        generatedParseOptions.boolean.push(...keys);
+      } else {
+        generatedParseOptions.string.push(...keys);
+      }
+    } else {
+      // 数値なども一度文字列として受け取り、スキーマに合わせて変換する
+      generatedParseOptions.string.push(...keys);
+    }
+
+    let helpText = optionInfo.description;
+    if (optionInfo.typeHint) helpText += ` (${optionInfo.typeHint})`;
+    if (optionInfo.envName) {
+      helpText += ` (${messages.envName(optionInfo.envName)})`;
+    }
+    if (optionInfo.defaultValue !== undefined) {
+      helpText += ` (${
+        messages.defaultValue(String(optionInfo.defaultValue))
+      })`;
+    }
+    if (optionInfo.required) {
+      helpText += ` (${messages.required})`;
+    }
+    if (optionInfo.deprecated) {
+      helpText += ` (${
+        messages.deprecated(
+          typeof optionInfo.deprecated === "string"
+            ? optionInfo.deprecated
+            : undefined,
+        )
+      })`;
+    }
+    if (optionInfo.hidden) continue;
+
+    let section = defaultSection;
+    if (optionInfo.group) {
+      section = helpSections.get(optionInfo.group) ??
+        { title: optionInfo.group, options: {} };
+      helpSections.set(optionInfo.group, section);
+    } else {
+      helpSections.set(defaultSection.title, defaultSection);
+    }
+    section.options[optionName] = helpText.trim();
+  }
+}
+
+/**
+ * ZodスキーマからparseArgsのオプションとヘルプセクションを自動生成する関数
+ * @param schema 解析対象のZodオブジェクトスキーマ
+ * @param sourceOptions 環境変数・設定ファイル・言語に関する設定（ヘルプの表示と --config の追加に使用）
+ * @returns parseArgs用のオプションとヘルプセクション
+ */
 // Reason: ZodObject's generic type parameters are complex.
 // deno-lint-ignore no-explicit-any
-function generateOptionsFromSchema<S extends z.ZodObject<any, any>>(
+export function generateOptionsFromSchema<S extends z.ZodObject<any, any>>(
   schema: S,
-  // customAliases?: Record<string, string>, // カスタムエイリアスは不要に戻す
+  sourceOptions: ArgSourceOptions & LocaleOptions = {},
 ): {
   generatedParseOptions: InternalGeneratedParseOptions;
   generatedHelpSections: HelpSection[];
@@ -62,140 +628,554 @@ function generateOptionsFromSchema<S extends z.ZodObject<any, any>>(
   const generatedParseOptions: InternalGeneratedParseOptions = {
     string: [],
     boolean: [],
+    collect: [],
+    negatable: [],
     alias: {},
     default: {},
   };
-  const helpOptions: { [optionAndAlias: string]: string } = {};
+  const messages = getMessages(sourceOptions.locale);
+  // グループごとのヘルプセクション (最初に現れた順に表示する)
+  const helpSections = new Map<string, HelpSection>();
+  const defaultSection: HelpSection = {
+    title: messages.optionsTitle,
+    options: {},
+  };
+  const helpOptions = defaultSection.options;
 
+  registerSchemaOptions(
+    collectSchemaOptions(schema, sourceOptions),
+    generatedParseOptions,
+    helpSections,
+    defaultSection,
+    messages,
+  );
+
+  // --config オプションを追加
+  if (sourceOptions.configFile) {
+    generatedParseOptions.string.push("config");
+    helpOptions["--config"] = `${messages.configOption} (<string>)`;
+  }
+
+  // --help オプションを自動追加
+  generatedParseOptions.alias["h"] = "help";
+  generatedParseOptions.boolean.push("help");
+  helpOptions["--help, -h"] = messages.helpOption;
+
+  // --completions オプションを自動追加
+  generatedParseOptions.string.push("completions");
+  helpOptions["--completions <bash|zsh|fish>"] = messages.completionsOption;
+
+  // 自動追加したオプションはグループのないオプションのセクションに表示する
+  helpSections.set(defaultSection.title, defaultSection);
+  const generatedHelpSections: HelpSection[] = [...helpSections.values()];
+
+  return { generatedParseOptions, generatedHelpSections };
+}
+
+// フィールドの値を読み込む環境変数名を決定するヘルパー関数 (meta.env を優先し、なければ接頭辞から生成)
+function resolveEnvName(
+  path: string[],
+  meta: ArgsFieldMeta | undefined,
+  sourceOptions: ArgSourceOptions,
+): string | undefined {
+  if (meta?.env) return meta.env;
+  if (sourceOptions.envPrefix) return toEnvName(path, sourceOptions.envPrefix);
+  return undefined;
+}
+
+/**
+ * コマンドラインで明示的に指定されたオプションのキー (ケバブケース) を収集する関数
+ * parseArgs の結果にはデフォルト値や未指定の boolean (false) も含まれるため、生の引数から判定します。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ * @param alias parseArgs に渡したエイリアスの定義
+ * @returns 指定されたオプションのキーの集合
+ */
+function findGivenOptionKeys(
+  rawDenoArgs: string[],
+  alias: Record<string, string | readonly string[]>,
+): Set<string> {
+  const resolveAlias = (key: string) => {
+    const original = alias[key];
+    return original === undefined
+      ? key
+      : typeof original === "string"
+      ? original
+      : original[0];
+  };
+  const givenKeys = new Set<string>();
+  for (const arg of rawDenoArgs) {
+    if (arg === "--") break;
+    const longMatch = arg.match(/^--([^=]+)/);
+    if (longMatch) {
+      givenKeys.add(resolveAlias(longMatch[1]));
+      // --no-xxx は xxx を false に指定したものとして扱う
+      if (longMatch[1].startsWith("no-")) {
+        givenKeys.add(resolveAlias(longMatch[1].slice(3)));
+      }
+    } else if (/^-[^-]/.test(arg)) {
+      // -vl のようにまとめて指定された短いオプションは、英字が続く間をオプションとみなす
+      for (const letter of arg.slice(1)) {
+        if (!/[A-Za-z]/.test(letter)) break;
+        givenKeys.add(resolveAlias(letter));
+      }
+    }
+  }
+  return givenKeys;
+}
+
+// 設定ファイルの値からキャメルケースまたはケバブケースのキーで値を取り出すヘルパー関数
+function lookupConfigValue(
+  values: Record<string, unknown> | undefined,
+  key: string,
+): unknown {
+  if (!values) return undefined;
+  return values[key] ?? values[camelToKebab(key)];
+}
+
+/**
+ * コマンドラインで指定されなかったオプションを、環境変数・設定ファイルの値で補完する関数
+ * 優先順位は CLI → 環境変数 → 設定ファイル → デフォルト値です。
+ * @param schema 解析対象のZodオブジェクトスキーマ
+ * @param parentPath ネストしたオブジェクトのキーのパス
+ * @param args キャメルケースに変換済みの引数オブジェクト (直接書き換える)
+ * @param context 指定済みのキー・設定・設定ファイル・値の取得元の記録先
+ */
+function applyExternalSources(
+  schema: z.ZodObject,
+  parentPath: string[],
+  args: Record<string, unknown>,
+  context: {
+    givenKeys: Set<string>;
+    sourceOptions: ArgSourceOptions;
+    configFile?: ConfigFile;
+    configValues?: Record<string, unknown>;
+    sources: Record<string, ArgSource>;
+  },
+): void {
   for (const key in schema.shape) {
     const fieldSchema = schema.shape[key] as z.ZodTypeAny;
-    const kebabKey = camelToKebab(key);
-    let optionName = `--${kebabKey}`;
-    let typeHint = "";
+    const path = [...parentPath, key];
+    const unwrappedSchema = unwrapSchema(fieldSchema);
 
-    // description と meta を取得 (Zod公式ドキュメント準拠)
-    const meta: { alias?: string; description?: string } | undefined =
-      fieldSchema.meta?.();
-    const descriptionFromMeta = meta?.description;
-    const descriptionFromSchemaProperty: string | undefined =
-      fieldSchema.description;
+    if (unwrappedSchema._zod.def.type === "object") {
+      const nestedArgs = typeof args[key] === "object" && args[key] !== null
+        ? args[key] as Record<string, unknown>
+        : {};
+      const nestedConfig = lookupConfigValue(context.configValues, key);
+      applyExternalSources(unwrappedSchema as z.ZodObject, path, nestedArgs, {
+        ...context,
+        configValues: typeof nestedConfig === "object" && nestedConfig !== null
+          ? nestedConfig as Record<string, unknown>
+          : undefined,
+      });
+      if (Object.keys(nestedArgs).length > 0) args[key] = nestedArgs;
+      continue;
+    }
 
-    // meta.description を優先し、なければ fieldSchema.description をフォールバックとして使用
-    const finalDescription = descriptionFromMeta ||
-      descriptionFromSchemaProperty || "";
-    const finalMeta = meta;
+    const sourceKey = path.join(".");
+    if (context.givenKeys.has(path.map(camelToKebab).join("."))) {
+      context.sources[sourceKey] = "cli";
+      continue;
+    }
 
-    // エイリアス処理
-    let aliasString = "";
-    if (finalMeta?.alias) {
-      aliasString = finalMeta.alias;
-      optionName += `, -${aliasString}`;
-      generatedParseOptions.alias[aliasString] = kebabKey;
+    const meta: ArgsFieldMeta | undefined = fieldSchema.meta?.();
+    const envName = resolveEnvName(path, meta, context.sourceOptions);
+    const envValue = envName ? readEnv(envName) : undefined;
+    if (envValue !== undefined) {
+      args[key] = envValue;
+      context.sources[sourceKey] = "env";
+      continue;
     }
 
-    // 型ヒントと型定義の収集
-    let unwrappedSchema: z.ZodTypeAny = fieldSchema;
-    // deno-lint-ignore no-explicit-any
-    let unwrappedDef = unwrappedSchema._def as any;
-    let unwrappedTypeName = unwrappedDef.typeName as string;
-
-    // ZodDefault, ZodOptional, ZodEffects などのラッパーを剥がす
-    while (
-      unwrappedTypeName === "ZodDefault" ||
-      unwrappedTypeName === "ZodOptional" ||
-      unwrappedTypeName === "ZodNullable" ||
-      unwrappedTypeName === "ZodEffects"
-    ) {
-      if (unwrappedTypeName === "ZodDefault") {
-        generatedParseOptions.default[kebabKey] = unwrappedDef.defaultValue();
+    // .env 形式の設定ファイルはキーを環境変数名として扱う
+    const configValue = context.configFile?.format === "env"
+      ? context.configFile.values[envName ?? ""] ??
+        context.configFile.values[toEnvName(path)]
+      : lookupConfigValue(context.configValues, key);
+    if (configValue !== undefined) {
+      args[key] = configValue;
+      context.sources[sourceKey] = "config";
+      continue;
+    }
+
+    if (args[key] !== undefined) {
+      context.sources[sourceKey] = "default";
+    }
+  }
+}
+
+// プレーンなオブジェクトかを判定するヘルパー関数
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 1行の文字列の入力から coerceArgValue で値を作れる型かを判定するヘルパー関数
+function isPromptableType(unwrappedSchema: z.ZodTypeAny): boolean {
+  // deno-lint-ignore no-explicit-any
+  const def = unwrappedSchema._zod.def as any;
+  switch (def.type) {
+    case "object":
+    case "record":
+    case "map":
+    case "set":
+    case "tuple":
+      return false;
+    case "array": {
+      // 区切り文字で分割した各要素がスカラー値になる配列のみ入力できる
+      const elementType = unwrapSchema(def.element)._zod.def.type;
+      return elementType !== "array" &&
+        isPromptableType(unwrapSchema(def.element));
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * 指定されていない必須の引数について、対話的に入力を求める関数
+ * 列挙型は選択肢の一覧から選択させ、secret が指定された引数は伏せ字で入力させます。
+ * 入力値がスキーマの検証に失敗した場合は再入力を求めます。
+ * ネストしたオブジェクトは各フィールドについて入力を求め、文字列から変換できない型
+ * (レコード・タプル・オブジェクトの配列など) は入力を求めずに通常の検証エラーとして報告させます。
+ * @param schema 解析対象のZodオブジェクトスキーマ (位置引数を含む)
+ * @param args キャメルケースに変換済みの引数オブジェクト (直接書き換える)
+ * @param sources 値の取得元の記録先
+ * @param locale メッセージの言語
+ * @param prefix ネストしたオブジェクトのキーの接頭辞 (例: "gas.")
+ * @returns EOF で入力が打ち切られた場合は false
+ */
+function promptMissingArgs(
+  schema: z.ZodObject,
+  args: Record<string, unknown>,
+  sources: Record<string, ArgSource>,
+  locale?: string,
+  prefix = "",
+): boolean {
+  const messages = getMessages(locale);
+  for (const key in schema.shape) {
+    const fieldSchema = schema.shape[key] as z.ZodTypeAny;
+    const unwrappedSchema = unwrapSchema(fieldSchema);
+    const unwrappedType = unwrappedSchema._zod.def.type;
+    if (unwrappedType === "object") {
+      // 一部のフィールドだけが指定されたネストしたオプションも、不足しているフィールドの入力を求める
+      const nested = args[key];
+      if (nested === undefined && fieldSchema.isOptional()) continue;
+      if (nested !== undefined && !isPlainObject(nested)) continue;
+      const nestedArgs = (nested ?? {}) as Record<string, unknown>;
+      args[key] = nestedArgs;
+      const completed = promptMissingArgs(
+        unwrappedSchema as z.ZodObject,
+        nestedArgs,
+        sources,
+        locale,
+        `${prefix}${key}.`,
+      );
+      if (!completed) return false;
+      continue;
+    }
+    if (args[key] !== undefined || fieldSchema.isOptional()) continue;
+    if (!isPromptableType(unwrappedSchema)) continue;
+
+    const meta: ArgsFieldMeta | undefined = fieldSchema.meta?.();
+    const label = describeField(fieldSchema, resolveLocale(locale)) || key;
+    const optionName = `${prefix}${camelToKebab(key)}`;
+
+    while (true) {
+      let input: unknown;
+      if (unwrappedType === "boolean") {
+        input = promptConfirm(`${label} (${optionName})`);
+      } else if (
+        unwrappedType === "enum" ||
+        (unwrappedType === "literal" &&
+          (unwrappedSchema._zod.values?.size ?? 0) > 1)
+      ) {
+        input = promptSelect(
+          `${label} (${optionName}):`,
+          [...(unwrappedSchema._zod.values ?? [])],
+          locale,
+        );
+      } else if (meta?.secret) {
+        input = promptSecret(`${label} (${optionName}):`);
+      } else {
+        input = promptText(`${label} (${optionName}):`);
       }
-      unwrappedSchema = unwrappedDef.innerType;
-      // deno-lint-ignore no-explicit-any
-      unwrappedDef = unwrappedSchema._def as any;
-      unwrappedTypeName = unwrappedDef.typeName;
-    }
-
-    // 剥がした後の型で判定
-    if (unwrappedTypeName === "ZodString") {
-      generatedParseOptions.string.push(kebabKey);
-      if (aliasString) generatedParseOptions.string.push(aliasString); // エイリアスも型リストに追加
-      typeHint = "<string>";
-    } else if (unwrappedTypeName === "ZodBoolean") {
-      generatedParseOptions.boolean.push(kebabKey);
-      if (aliasString) generatedParseOptions.boolean.push(aliasString); // エイリアスも型リストに追加
-    } else if (unwrappedTypeName === "ZodNumber") {
-      generatedParseOptions.string.push(kebabKey); // 数値も一度文字列として受け取る
-      if (aliasString) generatedParseOptions.string.push(aliasString); // エイリアスも型リストに追加
-      typeHint = "<number>";
-    } else if (unwrappedTypeName === "ZodEnum") {
-      generatedParseOptions.string.push(kebabKey);
-      if (aliasString) generatedParseOptions.string.push(aliasString); // エイリアスも型リストに追加
-      const enumValues = unwrappedDef.values as string[];
-      typeHint = `<${enumValues.join("|")}>`;
-    } else {
-      // その他の型はstringとして扱うか、エラーにするか
-      generatedParseOptions.string.push(kebabKey);
-      if (aliasString) generatedParseOptions.string.push(aliasString); // エイリアスも型リストに追加
+      if (input === null) return false; // EOF の場合は入力を打ち切り、検証エラーとして報告させる
+
+      const value = coerceArgValue(fieldSchema, input, meta?.separator);
+      const parsed = fieldSchema.safeParse(value, {
+        error: messages.zodError,
+      });
+      if (parsed.success) {
+        args[key] = value;
+        sources[`${prefix}${key}`] = "prompt";
+        break;
+      }
+      console.error(
+        messages.invalidInput(parsed.error.issues[0]?.message ?? ""),
+      );
     }
+  }
+  return true;
+}
+
+// 検証済みの引数オブジェクトと、各値の取得元の対応
+const argSourcesRegistry = new WeakMap<object, Record<string, ArgSource>>();
+
+/**
+ * processArgs / parseArgsSafe が返した引数オブジェクトについて、各値の取得元を返す関数
+ * @param args processArgs / parseArgsSafe が返した検証済みの引数オブジェクト
+ * @returns キー (ネストしたオプションは "gas.limit" のようなドット区切り) と取得元の対応
+ */
+export function getArgSources(args: object): Record<string, ArgSource> {
+  return { ...argSourcesRegistry.get(args) };
+}
 
-    let helpText = finalDescription;
-    if (typeHint) helpText += ` (${typeHint})`;
-    if (generatedParseOptions.default[kebabKey] !== undefined) {
-      helpText += ` (デフォルト: ${generatedParseOptions.default[kebabKey]})`;
+/**
+ * 文字列として受け取った引数の値を、スキーマの型に合わせて変換する関数
+ * 変換できない値はそのまま返し、Zodの検証でエラーとして報告させます。
+ * CSVのセルなど、引数以外の文字列の値の変換にも使用できます。
+ * @param schema 値に対応するZodスキーマ
+ * @param value parseArgs が返した値
+ * @param separator 配列の区切り文字
+ * @returns スキーマの型に合わせて変換した値
+ */
+export function coerceArgValue(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  separator: string | false = ",",
+): unknown {
+  if (value === undefined || value === null) return value;
+  const unwrapped = unwrapSchema(schema);
+  // deno-lint-ignore no-explicit-any
+  const def = unwrapped._zod.def as any;
+  if (def.coerce) return value; // z.coerce.* はZodに変換を任せる
+
+  switch (def.type) {
+    case "array": {
+      const items = (Array.isArray(value) ? value : [value]).flatMap((item) =>
+        typeof item === "string" && separator !== false && item !== ""
+          ? item.split(separator)
+          : [item]
+      );
+      return items.map((item) => coerceArgValue(def.element, item));
     }
-    const isOptional = fieldSchema.isOptional(); // isOptionalは元のfieldSchemaで判定（Optional/Defaultラッパーの有無）
-    if (!isOptional) {
-      helpText += " (必須)";
+    case "object": {
+      if (typeof value !== "object") return value;
+      return coerceArgs(
+        unwrapped as z.ZodObject,
+        value as Record<string, unknown>,
+      );
+    }
+    case "number": {
+      if (typeof value !== "string" || value.trim() === "") return value;
+      const numberValue = Number(value);
+      return Number.isNaN(numberValue) ? value : numberValue;
+    }
+    case "bigint": {
+      if (typeof value !== "string" && typeof value !== "number") return value;
+      try {
+        return BigInt(value);
+      } catch {
+        return value;
+      }
+    }
+    case "date": {
+      if (typeof value !== "string" && typeof value !== "number") return value;
+      const dateValue = new Date(value);
+      return Number.isNaN(dateValue.getTime()) ? value : dateValue;
     }
-    // console.log(`[DEBUG args.ts] key: ${key}, kebabKey: ${kebabKey}, optionName: ${optionName}, description: "${finalDescription}", typeHint: "${typeHint}", defaultVal: ${generatedParseOptions.default[kebabKey]}, isOptional: ${isOptional}, finalHelpText: "${helpText}"`);
-    helpOptions[optionName] = helpText;
+    case "boolean": {
+      if (value === "true") return true;
+      if (value === "false") return false;
+      return value;
+    }
+    case "enum":
+    case "literal": {
+      // 数値のリテラルや数値のenumは文字列表現で照合する
+      const values = [...(unwrapped._zod.values ?? [])];
+      if (values.includes(value as never)) return value;
+      return values.find((candidate) => String(candidate) === String(value)) ??
+        value;
+    }
+    case "union": {
+      // 変換後の値で検証に成功する最初の選択肢を採用する
+      for (const option of def.options as z.ZodTypeAny[]) {
+        const coerced = coerceArgValue(option, value, separator);
+        if (option.safeParse(coerced).success) return coerced;
+      }
+      return value;
+    }
+    default:
+      return value;
   }
+}
 
-  // --help オプションを自動追加
-  generatedParseOptions.alias["h"] = "help";
-  generatedParseOptions.boolean.push("help");
-  helpOptions["--help, -h"] = "ヘルプを表示";
+/**
+ * 解析済みの引数オブジェクトの各値を、スキーマの型に合わせて変換する関数
+ * @param schema 解析対象のZodオブジェクトスキーマ
+ * @param args キャメルケースに変換済みの引数オブジェクト
+ * @returns 値を変換した新しい引数オブジェクト
+ */
+function coerceArgs(
+  schema: z.ZodObject,
+  args: Record<string, unknown>,
+): Record<string, unknown> {
+  const coercedArgs: Record<string, unknown> = { ...args };
+  for (const key in schema.shape) {
+    if (!(key in args)) continue;
+    const fieldSchema = schema.shape[key] as z.ZodTypeAny;
+    const meta: ArgsFieldMeta | undefined = fieldSchema.meta?.();
+    coercedArgs[key] = coerceArgValue(fieldSchema, args[key], meta?.separator);
+  }
+  return coercedArgs;
+}
 
-  const generatedHelpSections: HelpSection[] = [
-    {
-      title: "オプション",
-      options: helpOptions,
-    },
-  ];
+// 2つの文字列の編集距離 (レーベンシュタイン距離) を計算するヘルパー関数
+function levenshteinDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+}
 
-  // console.log("DEBUG: generatedParseOptions.alias in generateOptionsFromSchema:", JSON.stringify(generatedParseOptions.alias, null, 2)); // デバッグ完了のためコメントアウト
-  return { generatedParseOptions, generatedHelpSections };
+/**
+ * 候補の中から入力に最も近いものを編集距離で探す関数
+ * 「もしかして」の提案に使用します。距離が入力の長さの1/3 (最低1) を超える候補は対象外です。
+ * @param input 入力された文字列 (例: "netwrok")
+ * @param candidates 候補の一覧 (例: ["network", "log-level"])
+ * @returns 最も近い候補 (見つからない場合は undefined)
+ */
+export function findClosestMatch(
+  input: string,
+  candidates: Iterable<string>,
+): string | undefined {
+  const maxDistance = Math.max(1, Math.floor(input.length / 3));
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(input, candidate);
+    if (distance <= maxDistance && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+// parseArgs のオプション定義 (文字列または配列) を配列に揃えるヘルパー関数
+function toKeyList(keys: string | readonly string[] | boolean | undefined) {
+  if (typeof keys === "string") return [keys];
+  return Array.isArray(keys) ? keys as readonly string[] : [];
 }
 
 /**
- * コマンドライン引数を解析、検証し、ヘルプ表示機能を提供する汎用関数
+ * 重複指定を検出するため配列として受け取った単一の値のオプションを、元の値に戻す関数
+ * 全て同じ値であれば1つの値として扱い、異なる値が指定されていれば問題として報告します。
+ * @param parsedArgs parseArgs の結果 (直接書き換える)
+ * @param scalarKeys 単一の値を取るオプションのキー (ケバブケース、エイリアスを含む)
+ * @param alias parseArgs に渡したエイリアスの定義
+ * @param secretKeys 秘密情報のオプションのキー (問題のメッセージで値をマスクする)
+ * @param messages メッセージカタログ
+ * @returns 異なる値が重複指定されたオプションの問題の一覧
+ */
+function resolveDuplicateValues(
+  parsedArgs: Record<string, unknown>,
+  scalarKeys: string[],
+  alias: Record<string, string | readonly string[]>,
+  secretKeys: Set<string>,
+  messages: Messages,
+): ArgsIssue[] {
+  const issues: ArgsIssue[] = [];
+  for (const key of scalarKeys) {
+    // ネストしたオプション (gas.limit) は parseArgs の結果もネストしている
+    const parts = key.split(".");
+    let container: Record<string, unknown> | undefined = parsedArgs;
+    for (const part of parts.slice(0, -1)) {
+      const next: unknown = container[part];
+      container = typeof next === "object" && next !== null
+        ? next as Record<string, unknown>
+        : undefined;
+      if (!container) break;
+    }
+    const lastKey = parts[parts.length - 1];
+    const values = container?.[lastKey];
+    if (!container || !Array.isArray(values)) continue;
+
+    const uniqueValues = [...new Set(values)];
+    if (uniqueValues.length === 0) {
+      delete container[lastKey];
+    } else {
+      container[lastKey] = uniqueValues[uniqueValues.length - 1];
+    }
+    // エイリアスのキーは元のキーと同じ値を持つため、元のキーでのみ報告する
+    if (uniqueValues.length > 1 && !(key in alias)) {
+      issues.push({
+        path: parts.map(kebabToCamel),
+        code: "conflicting_values",
+        message: messages.conflictingValues(
+          `--${key}`,
+          uniqueValues.map((value) =>
+            secretKeys.has(key) ? REDACTED : String(value)
+          ),
+        ),
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * コマンドライン引数を解析、検証する関数 (プロセスを終了しない版)
+ * ヘルプの表示や Deno.exit は行わず、結果を Result として返します。
  * @param rawDenoArgs Deno.argsから取得した生の引数配列
  * @param options ProcessArgsOptions型の設定オブジェクト
- * @returns 検証済みの引数オブジェクト (Zodスキーマによって型付けされる)
- * @throws ZodError 検証失敗時にログを出力し、プロセスを終了する
+ * @returns 検証済みの引数オブジェクト、またはヘルプ要求・検証失敗を表すエラーを含むResult
+ * @throws 位置引数の定義が不正な場合 (最後以外の位置引数に z.array を指定した場合)
  */
-// Reason: ZodObject's generic type parameters are complex.
-// deno-lint-ignore no-explicit-any
-export function processArgs<S extends z.ZodObject<any, any>>(
+export function parseArgsSafe<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+>(
   rawDenoArgs: string[],
-  options: ProcessArgsOptions<S>,
-): z.infer<S> {
-  const { zodSchema, commandName, commandDescription, customHelpGeneration } = // aliases は不要に戻す
-    options;
+  options: ProcessArgsOptions<S, P>,
+): Result<z.infer<S> & z.infer<z.ZodObject<P>>, ParseArgsError> {
+  const {
+    zodSchema,
+    positionals,
+    commandName,
+    commandDescription,
+    customHelpGeneration,
+  } = options;
+  const messages = getMessages(options.locale);
+  if (positionals) validatePositionals(positionals);
 
   let finalParseOptions = options.parseArgsOptions;
   let finalHelpSections = options.helpSections;
 
   if (!finalParseOptions || !finalHelpSections) {
     const { generatedParseOptions, generatedHelpSections } =
-      generateOptionsFromSchema(
-        zodSchema,
-      );
+      generateOptionsFromSchema(zodSchema, options);
     if (!finalParseOptions) {
       finalParseOptions = generatedParseOptions;
     }
     if (!finalHelpSections) {
-      finalHelpSections = generatedHelpSections;
+      finalHelpSections = positionals
+        ? [
+          generatePositionalsHelpSection(positionals, options.locale),
+          ...generatedHelpSections,
+        ]
+        : generatedHelpSections;
     }
   }
 
@@ -210,8 +1190,47 @@ export function processArgs<S extends z.ZodObject<any, any>>(
     ],
     alias: { ...(finalParseOptions?.alias || {}), h: "help" },
   };
+  if (positionals) {
+    // 位置引数は数値に変換せず文字列のまま受け取り、Zodスキーマで検証・変換する
+    ensuredParseOptions.string = [
+      ...(Array.isArray(finalParseOptions?.string)
+        ? finalParseOptions.string
+        : []),
+      "_",
+    ];
+  }
+
+  // 未知のオプションを記録し、単一の値を取るオプションは重複指定を検出するため配列として受け取る
+  const strict = options.strict ?? true;
+  const unknownKeys = new Set<string>();
+  const scalarKeys: string[] = [];
+  if (strict) {
+    const collectKeys = toKeyList(ensuredParseOptions.collect);
+    scalarKeys.push(
+      ...toKeyList(ensuredParseOptions.string).filter((key) =>
+        key !== "_" && !collectKeys.includes(key)
+      ),
+    );
+    ensuredParseOptions.collect = [...collectKeys, ...scalarKeys];
+    ensuredParseOptions.unknown ??= (_arg, key) => {
+      if (key === undefined) return true; // 位置引数はそのまま受け取る
+      unknownKeys.add(key);
+      return false;
+    };
+  }
 
   const rawArgs = parseArgs(rawDenoArgs, ensuredParseOptions);
+  const duplicateIssues = resolveDuplicateValues(
+    rawArgs,
+    scalarKeys,
+    ensuredParseOptions.alias || {},
+    new Set(
+      collectSchemaOptions(zodSchema, options)
+        .filter((optionInfo) => optionInfo.secret)
+        .map((optionInfo) => optionInfo.name),
+    ),
+    messages,
+  );
 
   // エイリアスを元のキー名に変換し、さらにキーをキャメルケースに変換する処理
   const camelCasedArgs: Record<string, unknown> = {};
@@ -226,7 +1245,9 @@ export function processArgs<S extends z.ZodObject<any, any>>(
     ) {
       if (typeof originalKeyOrKeys === "string") {
         const originalKebabKey = originalKeyOrKeys; // ここではケバブケースのキー
-        if (alias in tempAliasedArgs && !(originalKebabKey in tempAliasedArgs)) {
+        if (
+          alias in tempAliasedArgs && !(originalKebabKey in tempAliasedArgs)
+        ) {
           tempAliasedArgs[originalKebabKey] = tempAliasedArgs[alias];
           // delete tempAliasedArgs[alias]; // 元のエイリアスキーは不要なら削除しても良いが、Zodは未知のキーを無視するので必須ではない
         }
@@ -234,7 +1255,9 @@ export function processArgs<S extends z.ZodObject<any, any>>(
         // 配列の場合、最初のものを主要なキーとして扱うか、適切な処理が必要
         // 今回のスキーマ生成ロジックでは単一文字列を想定しているため、基本的にはここは通らないはず
         const originalKebabKey = originalKeyOrKeys[0];
-         if (alias in tempAliasedArgs && !(originalKebabKey in tempAliasedArgs)) {
+        if (
+          alias in tempAliasedArgs && !(originalKebabKey in tempAliasedArgs)
+        ) {
           tempAliasedArgs[originalKebabKey] = tempAliasedArgs[alias];
         }
       }
@@ -248,70 +1271,287 @@ export function processArgs<S extends z.ZodObject<any, any>>(
       if (key === "_") {
         camelCasedArgs[key] = tempAliasedArgs[key];
       } else {
-        camelCasedArgs[kebabToCamel(key)] = tempAliasedArgs[key];
+        camelCasedArgs[kebabToCamel(key)] = camelCaseNestedKeys(
+          tempAliasedArgs[key],
+        );
       }
     }
   }
 
-
   if (camelCasedArgs.help) { // helpもキャメルケースでチェック
     if (customHelpGeneration) {
-      const helpMsg = customHelpGeneration(
-        zodSchema,
+      return err(
+        new HelpRequestedError(
+          customHelpGeneration(zodSchema, commandName, commandDescription),
+          options.locale,
+        ),
+      );
+    }
+    if (!finalHelpSections || finalHelpSections.length === 0) {
+      console.warn(
+        "ヘルプセクションが空または未定義です。スキーマからの自動生成に問題がある可能性があります。",
+      );
+    }
+    return err(
+      new HelpRequestedError(
+        formatHelpMessage(
+          commandName,
+          finalHelpSections || [],
+          commandDescription,
+          {
+            usage: positionals
+              ? `[options] ${formatPositionalsUsage(positionals)}`
+              : undefined,
+            examples: options.examples,
+            locale: options.locale,
+          },
+        ),
+        options.locale,
+      ),
+    );
+  }
+
+  if (camelCasedArgs.completions !== undefined) {
+    return err(
+      requestCompletionScript(camelCasedArgs.completions, {
         commandName,
-        commandDescription,
+        zodSchema,
+        positionals,
+        configFile: options.configFile,
+        locale: options.locale,
+      }),
+    );
+  }
+
+  if (unknownKeys.size > 0 || duplicateIssues.length > 0) {
+    const knownKeys = [
+      ...toKeyList(ensuredParseOptions.string),
+      ...toKeyList(ensuredParseOptions.boolean),
+    ].filter((key) => key.length > 1);
+    const negatableKeys = toKeyList(ensuredParseOptions.negatable);
+    const unknownIssues = [...unknownKeys].map((key): ArgsIssue => {
+      // --no-xxx の打ち間違いは否定できるオプションの中から探す
+      const negatedSuggestion = key.startsWith("no-")
+        ? findClosestMatch(key.slice(3), negatableKeys)
+        : undefined;
+      const suggestion = negatedSuggestion
+        ? `no-${negatedSuggestion}`
+        : key.length > 1
+        ? findClosestMatch(key, knownKeys)
+        : undefined;
+      const message = messages.unknownOption(
+        `${key.length > 1 ? "--" : "-"}${key}`,
       );
-      console.info(helpMsg);
-    } else {
-      let helpMessage = `使用方法: ${commandName} [options]\n`;
-      if (commandDescription) {
-        helpMessage += `\n${commandDescription}\n`;
-      }
+      return {
+        path: [key],
+        code: "unknown_option",
+        message: suggestion
+          ? `${message} ${messages.didYouMean(`--${suggestion}`)}`
+          : message,
+      };
+    });
+    return err(
+      new ArgsValidationError(commandName, [
+        ...unknownIssues,
+        ...duplicateIssues,
+      ], options.locale),
+    );
+  }
 
-      if (!finalHelpSections || finalHelpSections.length === 0) {
-        console.warn(
-          "ヘルプセクションが空または未定義です。スキーマからの自動生成に問題がある可能性があります。",
-        );
-      }
+  let validationSchema: z.ZodObject = zodSchema;
+  if (positionals) {
+    // 位置引数を名前付きの値としてオプションと一緒に検証する
+    const positionalValues = ((camelCasedArgs._ as unknown[]) || []).map(
+      String,
+    );
+    const { assigned, extra } = assignPositionals(
+      positionals,
+      positionalValues,
+    );
+    if (extra.length > 0) {
+      return err(
+        new ArgsValidationError(commandName, [{
+          path: ["_"],
+          code: "too_many_positionals",
+          message: messages.tooManyPositionals(extra),
+        }], options.locale),
+      );
+    }
+    Object.assign(camelCasedArgs, assigned);
+    validationSchema = zodSchema.extend(positionals);
+  }
 
-      for (const section of finalHelpSections || []) {
-        helpMessage += `\n${section.title}:\n`;
-        for (const [opt, desc] of Object.entries(section.options)) {
-          helpMessage += `  ${opt.padEnd(40)}${desc}\n`; // padEndを調整
-        }
-      }
-      console.info(helpMessage);
+  // コマンドラインで指定されなかった値を環境変数・設定ファイルから補完する
+  let configFile: ConfigFile | undefined;
+  if (options.configFile && typeof camelCasedArgs.config === "string") {
+    const configResult = readConfigFile(camelCasedArgs.config);
+    if (configResult.isErr()) {
+      return err(
+        new ArgsValidationError(commandName, [{
+          path: ["config"],
+          code: "invalid_config",
+          message: configResult.error.message,
+        }], options.locale),
+      );
+    }
+    configFile = configResult.value;
+  }
+  const givenKeys = findGivenOptionKeys(
+    rawDenoArgs,
+    ensuredParseOptions.alias || {},
+  );
+  // 非推奨のオプションが指定された場合は警告する
+  for (const optionInfo of collectSchemaOptions(zodSchema, options)) {
+    if (optionInfo.deprecated && givenKeys.has(optionInfo.name)) {
+      console.warn(
+        messages.deprecatedOptionUsed(
+          `--${optionInfo.name}`,
+          typeof optionInfo.deprecated === "string"
+            ? optionInfo.deprecated
+            : undefined,
+        ),
+      );
+    }
+  }
+  const sources: Record<string, ArgSource> = {};
+  applyExternalSources(zodSchema, [], camelCasedArgs, {
+    givenKeys,
+    sourceOptions: options,
+    configFile,
+    configValues: configFile?.values,
+    sources,
+  });
+  for (const key of Object.keys(positionals || {})) {
+    if (camelCasedArgs[key] !== undefined) sources[key] = "cli";
+  }
+  if (options.interactive && isInteractiveTerminal()) {
+    promptMissingArgs(
+      validationSchema,
+      camelCasedArgs,
+      sources,
+      options.locale,
+    );
+  }
+  // 秘密情報のフィールドの名前と値を登録し、ログやエラー出力でマスクされるようにする
+  for (const optionInfo of collectSchemaOptions(validationSchema, options)) {
+    if (!optionInfo.secret) continue;
+    registerSecretKeys(optionInfo.path[optionInfo.path.length - 1]);
+    const value = optionInfo.path.reduce<unknown>(
+      (parent, key) =>
+        typeof parent === "object" && parent !== null
+          ? (parent as Record<string, unknown>)[key]
+          : undefined,
+      camelCasedArgs,
+    );
+    for (const secretValue of [value].flat()) {
+      if (typeof secretValue === "string") registerSecretValues(secretValue);
     }
-    Deno.exit(0);
   }
 
   try {
-    const validatedArgs = zodSchema.parse(camelCasedArgs) as z.infer<S>;
-    return validatedArgs;
-  } catch (error) {
-    console.error("引数の検証に失敗しました。", { errorObject: error });
-    if (error instanceof z.ZodError) {
-      console.info("エラーは ZodError のインスタンスです。");
-      if (Array.isArray(error.issues)) {
-        for (const issue of error.issues) {
-          const path = Array.isArray(issue.path)
-            ? issue.path.join(".")
-            : String(issue.path);
-          console.error(
-            `  - (issue) ${path} (${issue.code}): ${issue.message}`,
-          );
-        }
-      } else {
-        console.error("error.issues が配列ではありません。", {
-          issues: error.issues,
-        });
+    const parsed = validationSchema.safeParse(
+      coerceArgs(validationSchema, camelCasedArgs),
+      { error: messages.zodError },
+    );
+    if (!parsed.success) {
+      return err(
+        new ArgsValidationError(
+          commandName,
+          parsed.error.issues.map((issue) => ({
+            path: issue.path,
+            code: issue.code ?? "custom",
+            message: issue.message,
+          })),
+          options.locale,
+        ),
+      );
+    }
+    // スキーマのデフォルト値で補われたキーも取得元を記録する
+    for (const key of Object.keys(parsed.data)) {
+      if (
+        !Object.keys(sources).some((sourceKey) =>
+          sourceKey === key || sourceKey.startsWith(`${key}.`)
+        )
+      ) {
+        sources[key] = "default";
       }
-    } else {
-      console.error("エラーは ZodError のインスタンスではありません。", {
-        errorDetails: String(error),
-      });
     }
-    console.info(`詳細は ${commandName} --help を確認してください。`);
-    Deno.exit(1);
+    argSourcesRegistry.set(parsed.data, sources);
+    return ok(parsed.data as z.infer<S> & z.infer<z.ZodObject<P>>);
+  } catch (error) {
+    // transform 内で例外が投げられた場合なども検証失敗として扱う
+    return err(
+      new ArgsValidationError(commandName, [{
+        path: [],
+        code: "custom",
+        message: error instanceof Error ? error.message : String(error),
+      }], options.locale),
+    );
+  }
+}
+
+/**
+ * parseArgsSafe が返したエラーを出力し、プロセスを終了する関数
+ * ヘルプ要求の場合はヘルプ、補完スクリプトの出力要求の場合は補完スクリプトを表示して終了コード0、検証失敗の場合はエラー内容を表示して終了コード2 (exitCodes.usage) で終了します。
+ * format に "text" 以外を指定した場合、検証失敗は `{"error":{"code":"INVALID_ARGUMENTS",...}}` のJSONとして標準エラー出力に出力します。
+ * 終了する前に、createLogger で作成したロガーのログファイルを閉じます。
+ * @param error parseArgsSafe などが返したエラー
+ * @param locale メッセージの言語
+ * @param format 検証失敗を出力する形式 (デフォルト: "text")
+ */
+export function exitOnParseArgsError(
+  error: ParseArgsError,
+  locale?: string,
+  format: OutputFormat = "text",
+): never {
+  if (error instanceof HelpRequestedError) {
+    console.info(error.helpMessage);
+    exitWithLogs(0);
+  }
+  if (error instanceof CompletionsRequestedError) {
+    console.info(error.script);
+    exitWithLogs(0);
+  }
+  if (format !== "text") {
+    exitWithError(error, { format, locale });
+  }
+  const messages = getMessages(locale);
+  console.error(messages.validationFailed);
+  for (const issue of error.issues) {
+    console.error(
+      `  - (issue) ${issue.path.join(".")} (${issue.code}): ${
+        redactText(issue.message)
+      }`,
+    );
+  }
+  console.info(messages.seeHelp(error.commandName));
+  exitWithLogs(exitCodes.usage);
+}
+
+/**
+ * コマンドライン引数を解析、検証し、ヘルプ表示機能を提供する汎用関数
+ * parseArgsSafe の結果に応じてヘルプやエラーを出力し、プロセスを終了します。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ * @param options ProcessArgsOptions型の設定オブジェクト
+ * @returns 検証済みの引数オブジェクト (Zodスキーマによって型付けされる)
+ * @throws 検証失敗時にログを出力し、プロセスを終了する
+ */
+export function processArgs<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+>(
+  rawDenoArgs: string[],
+  options: ProcessArgsOptions<S, P>,
+): z.infer<S> & z.infer<z.ZodObject<P>> {
+  const result = parseArgsSafe(rawDenoArgs, options);
+  if (result.isErr()) {
+    exitOnParseArgsError(
+      result.error,
+      options.locale,
+      detectOutputFormat(rawDenoArgs),
+    );
   }
+  return result.value;
 }
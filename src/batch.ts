@@ -0,0 +1,435 @@
+import { dirname, join } from "jsr:@std/path@^1.0.8";
+import type { Logger } from "@logtape/logtape";
+import { err, ok, type Result } from "neverthrow";
+import { getRunContext } from "./logger.ts";
+import { createProgressBar, type ProgressBar } from "./progress.ts";
+import { redactText } from "./redact.ts";
+
+/**
+ * 1件の処理に渡される情報
+ */
+export interface BatchItemContext {
+  /** 項目のキー (チェックポイントに記録する値) */
+  key: string;
+  /** 入力の中での位置 (0始まり) */
+  index: number;
+  /** 中断が要求されたときに中止される AbortSignal (runBatch の signal と同じ) */
+  signal?: AbortSignal;
+}
+
+/**
+ * 1件を処理する関数
+ * 失敗した場合はエラーを返します (例外を投げた場合も失敗として記録されます)。
+ */
+export type BatchHandler<T> = (
+  item: T,
+  context: BatchItemContext,
+) => Promise<Result<unknown, Error>>;
+
+/**
+ * runBatch関数に渡すオプションを定義するインターフェース
+ * BatchArgsSchema の解析結果 (resume, retryFailed, concurrency, rateLimit) をそのまま渡せます。
+ */
+export interface BatchOptions<T> {
+  /** バッチ処理の名前 (チェックポイントのファイル名とログに使用、例: "airdrop-2024-06") */
+  name: string;
+  /** 進捗と結果を記録するロガー (createLogger で作成したもの) */
+  logger: Logger;
+  /** 項目を識別するキーを返す関数 (例: 送金先のアドレス、入力ファイルの行番号) */
+  getKey: (item: T, index: number) => string;
+  /** ログディレクトリ (createLogger の logDir、デフォルト: "logs") */
+  logDir?: string;
+  /** チェックポイントのファイルのパス (デフォルト: `{logDir}/{スクリプト名}/{name}.checkpoint.jsonl`) */
+  checkpointPath?: string;
+  /** チェックポイントから再開し、完了した項目を読み飛ばす */
+  resume?: boolean;
+  /** チェックポイントから再開し、失敗した項目も再実行する */
+  retryFailed?: boolean;
+  /**
+   * チェックポイントから再開し、開始したが結果が記録されていない項目も再実行する
+   * (異常終了した時点で処理中だった項目。送金などが完了している可能性があるため、確認してから指定する)
+   */
+  retryUnfinished?: boolean;
+  /** 同時に処理する件数 (デフォルト: 1) */
+  concurrency?: number;
+  /** 1秒あたりに開始する件数の上限 (デフォルト: 上限なし) */
+  rateLimit?: number;
+  /** 全体の件数 (指定すると進捗バーを表示する) */
+  total?: number;
+  /** 中断を要求する AbortSignal (処理中の項目の完了を待ってから終了する) */
+  signal?: AbortSignal;
+  /** 結果のレポート (JSON) を出力するファイルのパス */
+  reportPath?: string;
+}
+
+/**
+ * 失敗した項目
+ */
+export interface BatchFailure {
+  key: string;
+  error: string;
+}
+
+/**
+ * バッチ処理の結果
+ */
+export interface BatchSummary {
+  name: string;
+  checkpointPath: string;
+  /** 今回処理した件数 (成功と失敗の合計) */
+  processed: number;
+  succeeded: number;
+  failed: number;
+  /** チェックポイントで完了済み (または失敗済み・結果が不明) のため、読み飛ばした件数 */
+  skipped: number;
+  /** 前回の実行で開始したが結果が記録されていないため、読み飛ばした項目のキー */
+  unfinished: string[];
+  /** 中断が要求されたため、途中で終了したか */
+  interrupted: boolean;
+  durationMs: number;
+  /** 今回失敗した項目 */
+  failures: BatchFailure[];
+}
+
+// チェックポイントの1行 (項目ごとの最後の行が有効)
+// "started" は処理の開始時に記録し、最後の行が "started" の項目は結果が不明 (処理中に異常終了した)
+interface CheckpointEntry {
+  key: string;
+  status: "started" | "completed" | "failed";
+  at: string;
+  runId?: string;
+  error?: string;
+}
+
+const DEFAULT_LOG_DIR = "logs";
+const textEncoder = new TextEncoder();
+
+// チェックポイントを読み込み、項目ごとの最後の状態を返すヘルパー関数
+async function readCheckpoint(
+  path: string,
+): Promise<Result<Map<string, CheckpointEntry["status"]>, Error>> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error: unknown) {
+    if (error instanceof Deno.errors.NotFound) return ok(new Map());
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to read checkpoint ${path}: ${errorMessage}`),
+    );
+  }
+  const statuses = new Map<string, CheckpointEntry["status"]>();
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      const entry = JSON.parse(line) as CheckpointEntry;
+      if (typeof entry.key === "string") statuses.set(entry.key, entry.status);
+    } catch {
+      // 書き込み中に終了した場合の不完全な行は無視する
+    }
+  }
+  return ok(statuses);
+}
+
+// AbortSignal で中断できる待機のヘルパー関数
+function waitFor(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  if (milliseconds <= 0 || signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 項目を1件ずつ処理し、完了・失敗した項目をチェックポイントに記録する関数
+ * 途中で異常終了しても、resume を指定して再実行すると完了した項目を読み飛ばして再開できます
+ * (失敗した項目は retryFailed を指定した場合のみ再実行する)。
+ * 各項目は処理の開始前にもチェックポイントに記録し、開始したが結果が記録されていない項目
+ * (送金の送信後に異常終了した場合など) は、重複して処理しないよう retryUnfinished を指定した場合のみ
+ * 再実行します (指定しない場合は読み飛ばし、キーを結果の unfinished とログに記録する)。
+ * 処理済みの項目を重複して処理しないよう、チェックポイントがある場合に resume も retryFailed も
+ * 指定しないとエラーになります (最初からやり直す場合はチェックポイントのファイルを削除する)。
+ * 終了時には成功・失敗・読み飛ばした件数をロガーに記録します。
+ * @param items 処理する項目 (配列、ジェネレーター、openDataFile の rows() など)
+ * @param handler 1件を処理する関数
+ * @param options 名前・ロガー・キー・再開・並列数・速度制限などの設定
+ * @returns バッチ処理の結果を含むResult (チェックポイントの読み書きや項目の読み込みに失敗した場合はエラー)
+ */
+export async function runBatch<T>(
+  items: Iterable<T> | AsyncIterable<T>,
+  handler: BatchHandler<T>,
+  options: BatchOptions<T>,
+): Promise<Result<BatchSummary, Error>> {
+  const {
+    name,
+    logger,
+    getKey,
+    retryFailed = false,
+    retryUnfinished = false,
+    concurrency = 1,
+    rateLimit,
+    signal,
+  } = options;
+  const resume = options.resume === true || retryFailed || retryUnfinished;
+  const checkpointPath = options.checkpointPath ??
+    join(
+      options.logDir ?? DEFAULT_LOG_DIR,
+      String(logger.category[0] ?? name),
+      `${name}.checkpoint.jsonl`,
+    );
+
+  const checkpointResult = await readCheckpoint(checkpointPath);
+  if (checkpointResult.isErr()) return err(checkpointResult.error);
+  const previousStatuses = checkpointResult.value;
+  if (previousStatuses.size > 0 && !resume) {
+    return err(
+      new Error(
+        `Checkpoint ${checkpointPath} already exists: pass --resume to skip completed items, --retry-failed to also retry failed items, --retry-unfinished to also retry items whose result was not recorded, or delete the file to start over`,
+      ),
+    );
+  }
+  if (previousStatuses.size > 0) {
+    const statuses = [...previousStatuses.values()];
+    const unfinishedKeys = [...previousStatuses]
+      .filter(([, status]) => status === "started")
+      .map(([key]) => key);
+    logger.info(
+      "{name}: チェックポイントから再開します (完了: {completed} 件、失敗: {failed} 件、結果が不明: {unfinished} 件)",
+      {
+        name,
+        checkpointPath,
+        completed: statuses.filter((status) => status === "completed").length,
+        failed: statuses.filter((status) => status === "failed").length,
+        unfinished: unfinishedKeys.length,
+        retryFailed,
+        retryUnfinished,
+      },
+    );
+    if (unfinishedKeys.length > 0 && !retryUnfinished) {
+      logger.warn(
+        "{name}: 前回の実行で処理中に終了したため結果が不明な項目があります。重複を避けるため読み飛ばします。処理されたかを確認し、再実行する場合は --retry-unfinished を指定してください: {keys}",
+        { name, keys: unfinishedKeys },
+      );
+    }
+  }
+
+  let checkpointFile: Deno.FsFile;
+  try {
+    await Deno.mkdir(dirname(checkpointPath), { recursive: true });
+    checkpointFile = await Deno.open(checkpointPath, {
+      append: true,
+      create: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to open checkpoint ${checkpointPath}: ${errorMessage}`),
+    );
+  }
+
+  const startedAt = performance.now();
+  const runId = getRunContext()?.runId;
+  const summary: BatchSummary = {
+    name,
+    checkpointPath,
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    unfinished: [],
+    interrupted: false,
+    durationMs: 0,
+    failures: [],
+  };
+  const progress: ProgressBar | undefined = options.total !== undefined
+    ? createProgressBar({ logger, label: name, total: options.total })
+    : undefined;
+
+  // 1行ずつ同期的に書き込み、異常終了しても開始・完了した項目の記録が失われないようにする
+  const record = (entry: CheckpointEntry) => {
+    const data = textEncoder.encode(`${JSON.stringify(entry)}\n`);
+    let written = 0;
+    while (written < data.length) {
+      written += checkpointFile.writeSync(data.subarray(written));
+    }
+  };
+
+  // 複数のワーカーから項目を1件ずつ順に取り出す
+  const iterator = Symbol.asyncIterator in items
+    ? items[Symbol.asyncIterator]()
+    : items[Symbol.iterator]();
+  let nextIndex = 0;
+  let exhausted = false;
+  let fatalError: Error | undefined;
+  let pullQueue: Promise<unknown> = Promise.resolve();
+  const pull = (): Promise<{ item: T; index: number } | undefined> => {
+    const pulled = pullQueue.then(async () => {
+      if (exhausted || fatalError) return undefined;
+      const next = await iterator.next();
+      if (next.done) {
+        exhausted = true;
+        return undefined;
+      }
+      return { item: next.value, index: nextIndex++ };
+    });
+    pullQueue = pulled.catch(() => {});
+    return pulled;
+  };
+
+  // 速度制限のため、開始の時刻を順に割り当てる
+  let nextStartAt = 0;
+  const waitForTurn = async () => {
+    if (!rateLimit || rateLimit <= 0) return;
+    const now = performance.now();
+    const startAt = Math.max(now, nextStartAt);
+    nextStartAt = startAt + 1000 / rateLimit;
+    await waitFor(startAt - now, signal);
+  };
+
+  const seenKeys = new Set<string>();
+  const work = async () => {
+    while (!signal?.aborted && !fatalError) {
+      let next: { item: T; index: number } | undefined;
+      try {
+        next = await pull();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error
+          ? error.message
+          : String(error);
+        fatalError = new Error(`Failed to read batch items: ${errorMessage}`);
+        return;
+      }
+      if (!next) return;
+
+      const { item, index } = next;
+      const key = getKey(item, index);
+      if (seenKeys.has(key)) {
+        logger.warn(
+          "{name}: キー {key} の項目が重複しているため読み飛ばしました",
+          {
+            name,
+            key,
+            index,
+          },
+        );
+        summary.skipped++;
+        progress?.increment();
+        continue;
+      }
+      seenKeys.add(key);
+      const previousStatus = previousStatuses.get(key);
+      if (
+        previousStatus === "completed" ||
+        (previousStatus === "failed" && !retryFailed) ||
+        (previousStatus === "started" && !retryUnfinished)
+      ) {
+        if (previousStatus === "started") summary.unfinished.push(key);
+        summary.skipped++;
+        progress?.increment();
+        continue;
+      }
+
+      await waitForTurn();
+      if (signal?.aborted) return;
+      progress?.setMessage(key);
+      // 処理の途中で異常終了した場合に、再開時に重複して処理しないよう開始を記録する
+      record({ key, status: "started", at: new Date().toISOString(), runId });
+      let result: Result<unknown, Error>;
+      try {
+        result = await handler(item, { key, index, signal });
+      } catch (error: unknown) {
+        result = err(error instanceof Error ? error : new Error(String(error)));
+      }
+
+      summary.processed++;
+      const at = new Date().toISOString();
+      if (result.isOk()) {
+        summary.succeeded++;
+        record({ key, status: "completed", at, runId });
+        logger.debug("{name}: {key} を処理しました", { name, key, index });
+      } else {
+        // チェックポイントやレポートにも秘密情報を残さない
+        const error = redactText(result.error.message);
+        summary.failed++;
+        summary.failures.push({ key, error });
+        record({ key, status: "failed", at, runId, error });
+        logger.warn("{name}: {key} の処理に失敗しました: {error}", {
+          name,
+          key,
+          index,
+          error,
+        });
+      }
+      progress?.increment();
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.max(1, concurrency) }, () => work()),
+    );
+  } finally {
+    checkpointFile.close();
+    progress?.stop();
+    // 中断した場合は、項目の読み込み元 (ファイルなど) を閉じる
+    if (!exhausted) await iterator.return?.();
+  }
+  if (fatalError) return err(fatalError);
+
+  summary.interrupted = signal?.aborted === true && !exhausted;
+  summary.durationMs = Math.round(performance.now() - startedAt);
+  const logProperties = {
+    ...summary,
+    failures: undefined,
+    unfinished: undefined,
+  };
+  if (summary.interrupted) {
+    logger.warn(
+      "{name}: 中断しました (成功: {succeeded} 件、失敗: {failed} 件、読み飛ばし: {skipped} 件、所要時間: {durationMs}ms)。--resume で再開できます",
+      logProperties,
+    );
+  } else {
+    logger.info(
+      "{name}: 完了しました (成功: {succeeded} 件、失敗: {failed} 件、読み飛ばし: {skipped} 件、所要時間: {durationMs}ms)",
+      logProperties,
+    );
+  }
+  if (summary.failed > 0) {
+    logger.warn(
+      "{name}: 失敗した {failed} 件は --retry-failed で再実行できます",
+      logProperties,
+    );
+  }
+  if (summary.unfinished.length > 0) {
+    logger.warn(
+      "{name}: 結果が不明なため読み飛ばした {count} 件は、処理されたかを確認してから --retry-unfinished で再実行できます",
+      { ...logProperties, count: summary.unfinished.length },
+    );
+  }
+
+  if (options.reportPath) {
+    try {
+      await Deno.writeTextFile(
+        options.reportPath,
+        `${JSON.stringify({ ...summary, runId }, null, 2)}\n`,
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error
+        ? error.message
+        : String(error);
+      return err(
+        new Error(
+          `Failed to write batch report ${options.reportPath}: ${errorMessage}`,
+        ),
+      );
+    }
+  }
+  return ok(summary);
+}
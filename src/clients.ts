@@ -0,0 +1,148 @@
+import { err, ok, type Result } from "neverthrow";
+import {
+  type Account,
+  type Chain,
+  createPublicClient,
+  createWalletClient,
+  fallback,
+  http,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { getNetwork, resolveRpcUrl, toViemChain } from "./networks.ts";
+import { getAccount } from "./utils.ts";
+
+/**
+ * createEthClients などに渡す引数 (EthArgsSchema の解析結果をそのまま渡せる)
+ */
+export interface EthClientArgs {
+  network: string;
+  rpcUrl?: string;
+  privateKey?: string;
+}
+
+/**
+ * createEthClients関数などに渡すオプションを定義するインターフェース
+ */
+export interface EthClientOptions {
+  /** 1回のリクエストのタイムアウト (ミリ秒、デフォルト: 10000) */
+  timeout?: number;
+  /** 失敗したリクエストを再試行する回数 (デフォルト: 3) */
+  retryCount?: number;
+  /** 再試行の基準の間隔 (ミリ秒、再試行ごとに指数的に長くなる。デフォルト: 150) */
+  retryDelay?: number;
+  /**
+   * 予備のRPC URL (接続に失敗した場合に順に切り替える)
+   * 省略時、ネットワークのデフォルトのURLを使用する場合はネットワークの残りの rpcUrls を使用します。
+   */
+  fallbackRpcUrls?: string[];
+  /** 署名に使用するアカウント (省略時は privateKey 引数、または環境変数 PRIVATE_KEY から作成) */
+  account?: Account;
+  /** RPC URLの代わりに使用するトランスポート (テスト用のノードの代替などに使用) */
+  transport?: Transport;
+}
+
+/**
+ * 読み取り専用のクライアントと、接続先の情報
+ */
+export interface EthPublicClients {
+  chain: Chain;
+  /** 使用するRPC URL (予備のURLを除く) */
+  rpcUrl: string;
+  publicClient: PublicClient<Transport, Chain>;
+}
+
+/**
+ * 読み取り用と署名用のクライアントと、接続先の情報
+ */
+export interface EthClients extends EthPublicClients {
+  account: Account;
+  walletClient: WalletClient<Transport, Chain, Account>;
+}
+
+// 接続先のチェーンとトランスポートを作成するヘルパー関数
+function createConnection(
+  args: EthClientArgs,
+  options: EthClientOptions,
+): Result<{ chain: Chain; rpcUrl: string; transport: Transport }, Error> {
+  const network = getNetwork(args.network);
+  if (!network) return err(new Error(`Unknown network: ${args.network}`));
+  const rpcUrlResult = resolveRpcUrl(args);
+  if (rpcUrlResult.isErr()) return err(rpcUrlResult.error);
+  const rpcUrl = rpcUrlResult.value;
+  const { timeout, retryCount, retryDelay } = options;
+  // ネットワークのデフォルトのURLを使用する場合は、登録されている残りのURLを予備として使用する
+  const fallbackRpcUrls = options.fallbackRpcUrls ??
+    (rpcUrl === network.rpcUrls[0] ? network.rpcUrls.slice(1) : []);
+
+  try {
+    const httpTransports = [rpcUrl, ...fallbackRpcUrls].map((url) =>
+      http(url, { timeout, retryCount, retryDelay })
+    );
+    const transport = options.transport ??
+      (httpTransports.length === 1
+        ? httpTransports[0]
+        : fallback(httpTransports));
+    return ok({ chain: toViemChain(network, rpcUrl), rpcUrl, transport });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to create transport for ${rpcUrl}: ${errorMessage}`),
+    );
+  }
+}
+
+/**
+ * 解析済みの引数から、読み取り専用のviemクライアントを作成する関数
+ * 秘密鍵が不要なスクリプト (残高の確認など) で使用します。
+ * RPC URLは resolveRpcUrl と同じ順 (--rpc-url、環境変数、ネットワークのデフォルト) で決定します。
+ * @param args network と rpcUrl を含む引数 (EthArgsSchema の解析結果など)
+ * @param options タイムアウト・再試行・予備のRPC URLなどの設定
+ * @returns クライアントと接続先の情報を含むResult
+ */
+export function createEthPublicClient(
+  args: EthClientArgs,
+  options: EthClientOptions = {},
+): Result<EthPublicClients, Error> {
+  const connectionResult = createConnection(args, options);
+  if (connectionResult.isErr()) return err(connectionResult.error);
+  const { chain, rpcUrl, transport } = connectionResult.value;
+
+  return ok({
+    chain,
+    rpcUrl,
+    publicClient: createPublicClient({ chain, transport }),
+  });
+}
+
+/**
+ * 解析済みの引数から、読み取り用と署名用のviemクライアントを作成する関数
+ * アカウントは options.account、privateKey 引数、環境変数 PRIVATE_KEY の順に決定します。
+ * @param args network, rpcUrl, privateKey を含む引数 (EthArgsSchema の解析結果など)
+ * @param options タイムアウト・再試行・予備のRPC URL・アカウントなどの設定
+ * @returns クライアントとアカウント、接続先の情報を含むResult
+ */
+export function createEthClients(
+  args: EthClientArgs,
+  options: EthClientOptions = {},
+): Result<EthClients, Error> {
+  const connectionResult = createConnection(args, options);
+  if (connectionResult.isErr()) return err(connectionResult.error);
+  const { chain, rpcUrl, transport } = connectionResult.value;
+
+  let account = options.account;
+  if (!account) {
+    const accountResult = getAccount(args.privateKey);
+    if (accountResult.isErr()) return err(accountResult.error);
+    account = accountResult.value;
+  }
+
+  return ok({
+    chain,
+    rpcUrl,
+    account,
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: createWalletClient({ account, chain, transport }),
+  });
+}
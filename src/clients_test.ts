@@ -0,0 +1,63 @@
+import { assert, assertEquals } from "jsr:@std/assert@^1.0.13";
+import { custom } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createEthClients, createEthPublicClient } from "./clients.ts";
+import { registerNetwork } from "./networks.ts";
+
+// anvil の1番目のテスト用アカウントの秘密鍵
+const TEST_PRIVATE_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+registerNetwork({
+  name: "clients-test",
+  chainId: 31337,
+  rpcUrls: ["http://127.0.0.1:8545", "http://127.0.0.1:8546"],
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+});
+
+Deno.test("createEthClients uses the transport option instead of the RPC URL", async () => {
+  const methods: string[] = [];
+  const transport = custom({
+    request: ({ method }: { method: string }) => {
+      methods.push(method);
+      switch (method) {
+        case "eth_chainId":
+          return Promise.resolve("0x7a69");
+        case "eth_blockNumber":
+          return Promise.resolve("0x10");
+        default:
+          return Promise.reject(new Error(`Unexpected method: ${method}`));
+      }
+    },
+  });
+  const account = privateKeyToAccount(TEST_PRIVATE_KEY);
+
+  const result = createEthClients({ network: "clients-test" }, {
+    transport,
+    account,
+  });
+  assert(result.isOk());
+  const { publicClient, walletClient, chain, rpcUrl } = result.value;
+
+  assertEquals(chain.id, 31337);
+  assertEquals(rpcUrl, "http://127.0.0.1:8545");
+  assertEquals(walletClient.account.address, account.address);
+  assertEquals(await publicClient.getBlockNumber({ cacheTime: 0 }), 16n);
+  assertEquals(await walletClient.getChainId(), 31337);
+  assertEquals(methods, ["eth_blockNumber", "eth_chainId"]);
+});
+
+Deno.test("createEthPublicClient uses the remaining network RPC URLs as fallbacks", () => {
+  const result = createEthPublicClient({ network: "clients-test" });
+  assert(result.isOk());
+  assertEquals(result.value.publicClient.transport.type, "fallback");
+});
+
+Deno.test("createEthPublicClient does not add fallbacks for an explicit RPC URL", () => {
+  const result = createEthPublicClient({
+    network: "clients-test",
+    rpcUrl: "http://127.0.0.1:9545",
+  });
+  assert(result.isOk());
+  assertEquals(result.value.publicClient.transport.type, "http");
+});
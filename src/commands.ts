@@ -0,0 +1,252 @@
+import { parseArgs } from "jsr:@std/cli@^1.0.15/parse-args";
+import { err, type Result } from "neverthrow";
+import { z } from "zod@next";
+import {
+  type ArgSourceOptions,
+  ArgsValidationError,
+  exitOnParseArgsError,
+  findClosestMatch,
+  generateOptionsFromSchema,
+  HelpRequestedError,
+  type HelpSection,
+  type ParseArgsError,
+  parseArgsSafe,
+  type PositionalArgsShape,
+} from "./args.ts";
+import { requestCompletionScript } from "./completions.ts";
+import { formatHelpMessage, type HelpExample } from "./help.ts";
+import { getMessages, type LocaleOptions } from "./i18n.ts";
+import { detectOutputFormat } from "./output.ts";
+
+// Reason: ZodObject's generic type parameters are complex.
+// deno-lint-ignore no-explicit-any
+type AnyZodObject = z.ZodObject<any, any>;
+
+/**
+ * サブコマンドを定義するインターフェース
+ * commands を持つサブコマンドは、さらにその下のサブコマンドの指定が必要になります。
+ */
+export interface CommandDefinition {
+  /** このサブコマンド固有のオプション（親のオプションに追加されます） */
+  zodSchema?: AnyZodObject;
+  /** このサブコマンドの位置引数（commands を持たないサブコマンドでのみ有効） */
+  positionals?: PositionalArgsShape;
+  commandDescription?: string;
+  /** このサブコマンドのヘルプに表示する使用例 */
+  examples?: HelpExample[];
+  commands?: Record<string, CommandDefinition>;
+}
+
+/**
+ * processCommands関数に渡すオプションを定義するインターフェース
+ */
+export interface ProcessCommandsOptions
+  extends ArgSourceOptions, LocaleOptions {
+  /** 全てのサブコマンドで共有する親オプション (例: BaseArgsSchema) */
+  zodSchema?: AnyZodObject;
+  commands: Record<string, CommandDefinition>;
+  commandName: string;
+  commandDescription?: string;
+  /** ルートのヘルプに表示する使用例 */
+  examples?: HelpExample[];
+  /** 未知のオプションや重複指定をエラーにする (デフォルト: true、processArgs の strict と同じ) */
+  strict?: boolean;
+}
+
+// 定義に zodSchema や positionals があればその推論型、なければ unknown (交差型で無視される)
+type InferDefinitionArgs<D> =
+  & (D extends { zodSchema: infer S extends AnyZodObject } ? z.infer<S>
+    : unknown)
+  & (D extends { positionals: infer P extends PositionalArgsShape }
+    ? z.infer<z.ZodObject<P>>
+    : unknown);
+
+/**
+ * processCommands の戻り値の型
+ * command には "contract verify" のようにスペース区切りのコマンドパスが入り、
+ * command で判別することで args の型が絞り込まれます。
+ */
+export type CommandResult<
+  C extends Record<string, CommandDefinition>,
+  ParentArgs = unknown,
+  Prefix extends string = "",
+> = {
+  [K in keyof C & string]: C[K] extends {
+    commands: infer Sub extends Record<string, CommandDefinition>;
+  } ? CommandResult<
+      Sub,
+      ParentArgs & InferDefinitionArgs<C[K]>,
+      `${Prefix}${K} `
+    >
+    : {
+      command: `${Prefix}${K}`;
+      args: ParentArgs & InferDefinitionArgs<C[K]>;
+    };
+}[keyof C & string];
+
+/**
+ * サブコマンド一覧のヘルプセクションを生成する内部関数
+ */
+function generateCommandsHelpSection(
+  commands: Record<string, CommandDefinition>,
+  locale?: string,
+): HelpSection {
+  const options: { [command: string]: string } = {};
+  for (const [name, definition] of Object.entries(commands)) {
+    options[name] = definition.commandDescription || "";
+  }
+  return { title: getMessages(locale).commandsTitle, options };
+}
+
+/**
+ * サブコマンドを含むコマンドライン引数を解析、検証する関数 (プロセスを終了しない版)
+ * 位置引数からサブコマンドを辿り、親オプションと各サブコマンドのスキーマを結合したスキーマで
+ * parseArgsSafe による検証を行います。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ * @param options ProcessCommandsOptions型の設定オブジェクト
+ * @returns 実行するコマンドパスと検証済みの引数オブジェクト、またはヘルプ要求・検証失敗を表すエラーを含むResult
+ */
+export function parseCommandsSafe<O extends ProcessCommandsOptions>(
+  rawDenoArgs: string[],
+  options: O,
+): Result<
+  CommandResult<O["commands"], InferDefinitionArgs<O>>,
+  ParseArgsError
+> {
+  const messages = getMessages(options.locale);
+  // --completions はどの階層で指定されても、コマンド全体の補完スクリプトを出力する
+  const doubleDashIndex = rawDenoArgs.indexOf("--");
+  const { completions } = parseArgs(
+    doubleDashIndex === -1
+      ? rawDenoArgs
+      : rawDenoArgs.slice(0, doubleDashIndex),
+    { string: ["completions"] },
+  );
+  if (completions !== undefined) {
+    return err(requestCompletionScript(completions, options));
+  }
+
+  let schema: AnyZodObject = options.zodSchema ?? z.object({});
+  let commands: Record<string, CommandDefinition> | undefined =
+    options.commands;
+  let commandName = options.commandName;
+  let commandDescription = options.commandDescription;
+  let examples = options.examples;
+  let positionals: PositionalArgsShape | undefined;
+  const commandPath: string[] = [];
+  const optionArgs: string[] = []; // サブコマンド名より前に指定されたオプション
+  let restArgs = rawDenoArgs;
+
+  while (commands) {
+    // "--" 以降はサブコマンドの探索対象外とする
+    const doubleDashIndex = restArgs.indexOf("--");
+    const headArgs = doubleDashIndex === -1
+      ? restArgs
+      : restArgs.slice(0, doubleDashIndex);
+    const tailArgs = doubleDashIndex === -1
+      ? []
+      : restArgs.slice(doubleDashIndex);
+
+    const { generatedParseOptions, generatedHelpSections } =
+      generateOptionsFromSchema(schema, options);
+    const parsed = parseArgs(headArgs, {
+      ...generatedParseOptions,
+      stopEarly: true,
+    });
+    const consumedCount = headArgs.length - parsed._.length;
+    const candidate = parsed._.length > 0 ? String(parsed._[0]) : undefined;
+
+    if (candidate === undefined) {
+      const helpMessage = formatHelpMessage(
+        commandName,
+        [
+          ...generatedHelpSections,
+          generateCommandsHelpSection(commands, options.locale),
+        ],
+        commandDescription,
+        { usage: "<command> [options]", examples, locale: options.locale },
+      );
+      if (parsed.help) {
+        return err(new HelpRequestedError(helpMessage, options.locale));
+      }
+      return err(
+        new ArgsValidationError(commandName, [{
+          path: ["command"],
+          code: "missing_command",
+          message: messages.missingCommand(Object.keys(commands)),
+        }], options.locale),
+      );
+    }
+
+    // "constructor" などの Object.prototype のプロパティをコマンドとして扱わない
+    const definition: CommandDefinition | undefined =
+      Object.hasOwn(commands, candidate) ? commands[candidate] : undefined;
+    if (!definition) {
+      const suggestion = findClosestMatch(candidate, Object.keys(commands));
+      return err(
+        new ArgsValidationError(commandName, [{
+          path: ["command"],
+          code: "unknown_command",
+          message: suggestion
+            ? `${messages.unknownCommand(candidate)} ${
+              messages.didYouMean(suggestion)
+            }`
+            : messages.unknownCommand(candidate),
+        }], options.locale),
+      );
+    }
+
+    optionArgs.push(...headArgs.slice(0, consumedCount));
+    restArgs = [...headArgs.slice(consumedCount + 1), ...tailArgs];
+    commandPath.push(candidate);
+    if (definition.zodSchema) {
+      schema = schema.merge(definition.zodSchema);
+    }
+    commandName = `${commandName} ${candidate}`;
+    commandDescription = definition.commandDescription;
+    examples = definition.examples;
+    positionals = definition.positionals;
+    commands = definition.commands;
+  }
+
+  return parseArgsSafe([...optionArgs, ...restArgs], {
+    zodSchema: schema,
+    positionals,
+    commandName,
+    commandDescription,
+    examples,
+    envPrefix: options.envPrefix,
+    configFile: options.configFile,
+    interactive: options.interactive,
+    strict: options.strict,
+    locale: options.locale,
+  }).map((args) =>
+    ({ command: commandPath.join(" "), args }) as CommandResult<
+      O["commands"],
+      InferDefinitionArgs<O>
+    >
+  );
+}
+
+/**
+ * サブコマンドを含むコマンドライン引数を解析、検証する汎用関数
+ * parseCommandsSafe の結果に応じてヘルプやエラーを出力し、プロセスを終了します。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ * @param options ProcessCommandsOptions型の設定オブジェクト
+ * @returns 実行するコマンドパスと検証済みの引数オブジェクト
+ * @throws サブコマンドの指定がない場合や検証失敗時にログを出力し、プロセスを終了する
+ */
+export function processCommands<O extends ProcessCommandsOptions>(
+  rawDenoArgs: string[],
+  options: O,
+): CommandResult<O["commands"], InferDefinitionArgs<O>> {
+  const result = parseCommandsSafe(rawDenoArgs, options);
+  if (result.isErr()) {
+    exitOnParseArgsError(
+      result.error,
+      options.locale,
+      detectOutputFormat(rawDenoArgs),
+    );
+  }
+  return result.value;
+}
@@ -0,0 +1,491 @@
+import type { z } from "zod@next";
+import {
+  ArgsValidationError,
+  collectSchemaOptions,
+  CompletionsRequestedError,
+  type PositionalArgsShape,
+  type SchemaOptionInfo,
+} from "./args.ts";
+import type { CommandDefinition } from "./commands.ts";
+import { getMessages, type LocaleOptions } from "./i18n.ts";
+
+// Reason: ZodObject's generic type parameters are complex.
+// deno-lint-ignore no-explicit-any
+type AnyZodObject = z.ZodObject<any, any>;
+
+/**
+ * 補完スクリプトを生成できるシェル
+ */
+export type CompletionShell = "bash" | "zsh" | "fish";
+
+/**
+ * 補完スクリプトを生成できるシェルの一覧
+ */
+export const completionShells: readonly CompletionShell[] = [
+  "bash",
+  "zsh",
+  "fish",
+];
+
+/**
+ * 補完スクリプトの生成対象となるコマンドの定義
+ * processArgs / processCommands に渡すオプションをそのまま渡すことができます。
+ */
+export interface CompletionTarget extends LocaleOptions {
+  commandName: string;
+  zodSchema?: AnyZodObject;
+  positionals?: PositionalArgsShape;
+  commands?: Record<string, CommandDefinition>;
+  /** true の場合、--config オプションの値としてファイルのパスを補完する */
+  configFile?: boolean;
+}
+
+// コマンドパスごとの補完候補
+interface CompletionNode {
+  /** スペース区切りのサブコマンドのパス (ルートは "") */
+  path: string;
+  commands: { name: string; description: string }[];
+  options: SchemaOptionInfo[];
+  /** 位置引数として補完する対象 */
+  positionalCompletion?: "file" | "directory";
+}
+
+// 全てのコマンドに自動で追加されるオプション
+function builtinOptions(
+  configFile?: boolean,
+  locale?: string,
+): SchemaOptionInfo[] {
+  const messages = getMessages(locale);
+  const options: SchemaOptionInfo[] = [];
+  if (configFile) {
+    options.push({
+      path: ["config"],
+      name: "config",
+      description: messages.configOption,
+      type: "string",
+      typeHint: "<string>",
+      completion: "file",
+      required: false,
+    });
+  }
+  options.push(
+    {
+      path: ["help"],
+      name: "help",
+      alias: "h",
+      description: messages.helpOption,
+      type: "boolean",
+      typeHint: "",
+      required: false,
+    },
+    {
+      path: ["completions"],
+      name: "completions",
+      description: messages.completionsOption,
+      type: "string",
+      typeHint: `<${completionShells.join("|")}>`,
+      choices: [...completionShells],
+      required: false,
+    },
+  );
+  return options;
+}
+
+/**
+ * コマンドの定義を辿り、コマンドパスごとの補完候補を収集する内部関数
+ */
+function collectCompletionNodes(
+  path: string[],
+  schema: AnyZodObject | undefined,
+  definition: Omit<CompletionTarget, "commandName" | "zodSchema">,
+  nodes: CompletionNode[],
+): void {
+  const options = [
+    ...(schema
+      ? collectSchemaOptions(schema, definition).filter((option) =>
+        !option.hidden
+      )
+      : []),
+    ...builtinOptions(definition.configFile, definition.locale),
+  ];
+  const positionalCompletion = Object.values(definition.positionals ?? {})
+    .map((positionalSchema) => positionalSchema.meta?.()?.completion)
+    .find((completion) => completion === "file" || completion === "directory");
+
+  nodes.push({
+    path: path.join(" "),
+    commands: Object.entries(definition.commands ?? {}).map((
+      [name, command],
+    ) => ({ name, description: command.commandDescription || "" })),
+    options,
+    positionalCompletion,
+  });
+
+  for (const [name, command] of Object.entries(definition.commands ?? {})) {
+    collectCompletionNodes(
+      [...path, name],
+      schema && command.zodSchema
+        ? schema.merge(command.zodSchema)
+        : schema ?? command.zodSchema,
+      {
+        positionals: command.positionals,
+        commands: command.commands,
+        configFile: definition.configFile,
+        locale: definition.locale,
+      },
+      nodes,
+    );
+  }
+}
+
+// 値を取るオプションかどうかを判定するヘルパー関数
+function takesValue(option: SchemaOptionInfo): boolean {
+  if (option.type === "boolean") return false;
+  return !(option.type === "array" && option.elementType === "boolean");
+}
+
+// オプションの名前とエイリアスを "--name", "-a" の形式で返すヘルパー関数
+function optionFlags(option: SchemaOptionInfo): string[] {
+  return option.alias
+    ? [`--${option.name}`, `-${option.alias}`]
+    : [`--${option.name}`];
+}
+
+// コマンド名からシェルの関数名に使える識別子を生成するヘルパー関数
+function toIdentifier(commandName: string): string {
+  return commandName.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+// bash / zsh のシングルクォート文字列に変換するヘルパー関数
+function quotePosix(value: string): string {
+  return `'${value.replaceAll("'", `'\\''`)}'`;
+}
+
+// fish のシングルクォート文字列に変換するヘルパー関数
+function quoteFish(value: string): string {
+  return `'${value.replaceAll("\\", "\\\\").replaceAll("'", "\\'")}'`;
+}
+
+// サブコマンドのパスを辿る case 文の分岐を生成するヘルパー関数 (bash / zsh 共通)
+function posixCommandPathCases(nodes: CompletionNode[]): string[] {
+  return nodes.flatMap((node) =>
+    node.commands.map((command) => {
+      const nextPath = node.path
+        ? `${node.path} ${command.name}`
+        : command.name;
+      return `      ${quotePosix(`${node.path}|${command.name}`)}) cmd_path=${
+        quotePosix(nextPath)
+      } ;;`;
+    })
+  );
+}
+
+// 値を取るオプションの直後の補完を行う case 文の分岐を生成するヘルパー関数 (bash / zsh 共通)
+function posixOptionValueCases(
+  nodes: CompletionNode[],
+  completeValue: (option: SchemaOptionInfo) => string,
+): string[] {
+  return nodes.flatMap((node) =>
+    node.options.filter(takesValue).map((option) =>
+      `    ${
+        optionFlags(option).map((flag) => quotePosix(`${node.path}|${flag}`))
+          .join("|")
+      }) ${completeValue(option)}; return ;;`
+    )
+  );
+}
+
+/**
+ * bash 用の補完スクリプトを生成する内部関数
+ */
+function generateBashScript(
+  commandName: string,
+  nodes: CompletionNode[],
+  usage: string,
+): string {
+  const functionName = `_${toIdentifier(commandName)}_completions`;
+  const commandPathCases = posixCommandPathCases(nodes);
+  const lines = [
+    `# bash completion for ${commandName}`,
+    `# ${usage}: source <(${commandName} --completions bash)`,
+    `${functionName}() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+    `  local prev="\${COMP_WORDS[COMP_CWORD-1]}"`,
+    `  local cmd_path="" i`,
+  ];
+  if (commandPathCases.length > 0) {
+    lines.push(
+      `  for ((i = 1; i < COMP_CWORD; i++)); do`,
+      `    case "\${cmd_path}|\${COMP_WORDS[i]}" in`,
+      ...commandPathCases,
+      `    esac`,
+      `  done`,
+    );
+  }
+  lines.push(
+    `  case "\${cmd_path}|\${prev}" in`,
+    ...posixOptionValueCases(nodes, (option) => {
+      if (option.choices) {
+        return `COMPREPLY=($(compgen -W ${
+          quotePosix(option.choices.join(" "))
+        } -- "$cur"))`;
+      }
+      if (option.completion === "file") {
+        return `COMPREPLY=($(compgen -f -- "$cur"))`;
+      }
+      if (option.completion === "directory") {
+        return `COMPREPLY=($(compgen -d -- "$cur"))`;
+      }
+      return "COMPREPLY=()";
+    }),
+    `  esac`,
+    `  case "\${cmd_path}" in`,
+  );
+  for (const node of nodes) {
+    const words = [
+      ...node.commands.map((command) => command.name),
+      ...node.options.flatMap(optionFlags),
+    ];
+    lines.push(
+      `    ${quotePosix(node.path)})`,
+      `      COMPREPLY=($(compgen -W ${
+        quotePosix(words.join(" "))
+      } -- "$cur"))`,
+    );
+    if (node.positionalCompletion) {
+      lines.push(
+        `      COMPREPLY+=($(compgen ${
+          node.positionalCompletion === "file" ? "-f" : "-d"
+        } -- "$cur"))`,
+      );
+    }
+    lines.push(`      ;;`);
+  }
+  lines.push(
+    `  esac`,
+    `}`,
+    `complete -F ${functionName} ${commandName}`,
+  );
+  return lines.join("\n");
+}
+
+// zsh の _describe に渡す "名前:説明" の形式に変換するヘルパー関数
+function zshDescribeEntry(name: string, description: string): string {
+  const escapedName = name.replaceAll(":", "\\:");
+  return quotePosix(
+    description ? `${escapedName}:${description}` : escapedName,
+  );
+}
+
+/**
+ * zsh 用の補完スクリプトを生成する内部関数
+ */
+function generateZshScript(
+  commandName: string,
+  nodes: CompletionNode[],
+  usage: string,
+): string {
+  const functionName = `_${toIdentifier(commandName)}`;
+  const commandPathCases = posixCommandPathCases(nodes);
+  const lines = [
+    `#compdef ${commandName}`,
+    `# zsh completion for ${commandName}`,
+    `# ${usage}: ${commandName} --completions zsh > "\${fpath[1]}/_${commandName}"`,
+    `${functionName}() {`,
+    `  local cmd_path="" positional="" i`,
+    `  local -a commands options`,
+  ];
+  if (commandPathCases.length > 0) {
+    lines.push(
+      `  for ((i = 2; i < CURRENT; i++)); do`,
+      `    case "\${cmd_path}|\${words[i]}" in`,
+      ...commandPathCases,
+      `    esac`,
+      `  done`,
+    );
+  }
+  lines.push(
+    `  case "\${cmd_path}|\${words[CURRENT-1]}" in`,
+    ...posixOptionValueCases(nodes, (option) => {
+      if (option.choices) {
+        return `compadd -- ${option.choices.map(quotePosix).join(" ")}`;
+      }
+      if (option.completion === "file") return "_files";
+      if (option.completion === "directory") return "_files -/";
+      return "_message 'value'";
+    }),
+    `  esac`,
+    `  case "\${cmd_path}" in`,
+  );
+  for (const node of nodes) {
+    lines.push(`    ${quotePosix(node.path)})`);
+    if (node.commands.length > 0) {
+      lines.push(
+        `      commands=(${
+          node.commands.map((command) =>
+            zshDescribeEntry(command.name, command.description)
+          ).join(" ")
+        })`,
+      );
+    }
+    lines.push(
+      `      options=(${
+        node.options.flatMap((option) =>
+          optionFlags(option).map((flag) =>
+            zshDescribeEntry(flag, option.description)
+          )
+        ).join(" ")
+      })`,
+    );
+    if (node.positionalCompletion) {
+      lines.push(`      positional=${node.positionalCompletion}`);
+    }
+    lines.push(`      ;;`);
+  }
+  lines.push(
+    `  esac`,
+    `  if [[ $PREFIX == -* ]]; then`,
+    `    _describe -t options 'option' options`,
+    `  else`,
+    `    (( \${#commands} )) && _describe -t commands 'command' commands`,
+    `    [[ $positional == file ]] && _files`,
+    `    [[ $positional == directory ]] && _files -/`,
+    `  fi`,
+    `}`,
+    `if [ "$funcstack[1]" = "${functionName}" ]; then`,
+    `  ${functionName} "$@"`,
+    `else`,
+    `  compdef ${functionName} ${commandName}`,
+    `fi`,
+  );
+  return lines.join("\n");
+}
+
+/**
+ * fish 用の補完スクリプトを生成する内部関数
+ */
+function generateFishScript(
+  commandName: string,
+  nodes: CompletionNode[],
+  usage: string,
+): string {
+  const functionName = `__${toIdentifier(commandName)}_using_command`;
+  const lines = [
+    `# fish completion for ${commandName}`,
+    `# ${usage}: ${commandName} --completions fish > ~/.config/fish/completions/${commandName}.fish`,
+    `function ${functionName}`,
+    `    set -l cmd_path ''`,
+    `    for token in (commandline -opc)[2..-1]`,
+    `        switch "$cmd_path|$token"`,
+  ];
+  for (const node of nodes) {
+    for (const command of node.commands) {
+      const nextPath = node.path
+        ? `${node.path} ${command.name}`
+        : command.name;
+      lines.push(
+        `            case ${quoteFish(`${node.path}|${command.name}`)}`,
+        `                set cmd_path ${quoteFish(nextPath)}`,
+      );
+    }
+  }
+  lines.push(
+    `        end`,
+    `    end`,
+    `    test "$cmd_path" = "$argv[1]"`,
+    `end`,
+    `complete -c ${commandName} -f`,
+  );
+
+  for (const node of nodes) {
+    const prefix = `complete -c ${commandName} -n "${functionName} ${
+      quoteFish(node.path)
+    }"`;
+    for (const command of node.commands) {
+      lines.push(
+        `${prefix} -a ${quoteFish(command.name)} -d ${
+          quoteFish(command.description)
+        }`,
+      );
+    }
+    for (const option of node.options) {
+      let line = `${prefix} -l ${option.name}`;
+      if (option.alias) {
+        line += option.alias.length === 1
+          ? ` -s ${option.alias}`
+          : ` -o ${option.alias}`;
+      }
+      if (option.description) line += ` -d ${quoteFish(option.description)}`;
+      if (takesValue(option)) {
+        if (option.choices) {
+          line += ` -x -a ${quoteFish(option.choices.join(" "))}`;
+        } else if (option.completion === "file") {
+          line += " -r -F";
+        } else if (option.completion === "directory") {
+          line += " -x -a '(__fish_complete_directories)'";
+        } else {
+          line += " -x";
+        }
+      }
+      lines.push(line);
+    }
+    if (node.positionalCompletion === "file") {
+      lines.push(`${prefix} -F`);
+    } else if (node.positionalCompletion === "directory") {
+      lines.push(`${prefix} -a '(__fish_complete_directories)'`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * コマンドの定義からシェル補完スクリプトを生成する関数
+ * オプション名・エイリアス・列挙型の値・サブコマンドを補完し、
+ * `.meta({ completion: "file" })` が指定されたオプションや位置引数ではファイルのパスを補完します。
+ * @param shell 補完スクリプトを生成するシェル
+ * @param target 補完対象のコマンドの定義 (processArgs / processCommands のオプション)
+ * @returns 補完スクリプト
+ */
+export function generateCompletionScript(
+  shell: CompletionShell,
+  target: CompletionTarget,
+): string {
+  const nodes: CompletionNode[] = [];
+  collectCompletionNodes([], target.zodSchema, target, nodes);
+  const usage = getMessages(target.locale).usage;
+  switch (shell) {
+    case "bash":
+      return generateBashScript(target.commandName, nodes, usage);
+    case "zsh":
+      return generateZshScript(target.commandName, nodes, usage);
+    case "fish":
+      return generateFishScript(target.commandName, nodes, usage);
+  }
+}
+
+/**
+ * --completions に指定された値から、補完スクリプトの出力要求を表すエラーを生成する関数
+ * 対応していないシェルが指定された場合は検証失敗のエラーを返します。
+ * @param shell --completions に指定された値
+ * @param target 補完対象のコマンドの定義
+ * @returns 補完スクリプトの出力要求、または検証失敗を表すエラー
+ */
+export function requestCompletionScript(
+  shell: unknown,
+  target: CompletionTarget,
+): CompletionsRequestedError | ArgsValidationError {
+  if (!completionShells.includes(shell as CompletionShell)) {
+    return new ArgsValidationError(target.commandName, [{
+      path: ["completions"],
+      code: "invalid_shell",
+      message: getMessages(target.locale).invalidShell(
+        String(shell),
+        completionShells,
+      ),
+    }], target.locale);
+  }
+  return new CompletionsRequestedError(
+    generateCompletionScript(shell as CompletionShell, target),
+    target.locale,
+  );
+}
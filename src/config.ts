@@ -0,0 +1,120 @@
+import { parse as parseDotenv } from "jsr:@std/dotenv@^0.225.5/parse";
+import { parse as parseJsonc } from "jsr:@std/jsonc@^1.0.2";
+import { extname } from "jsr:@std/path@^1.0.8";
+import { parse as parseToml } from "jsr:@std/toml@^1.0.5";
+import { err, ok, type Result } from "neverthrow";
+
+/**
+ * 設定ファイルの形式
+ * "env" の場合、キーは環境変数名 (例: RPC_URL) として扱われます。
+ */
+export type ConfigFileFormat = "json" | "jsonc" | "toml" | "env";
+
+/**
+ * 設定ファイルの読み込み結果
+ */
+export interface ConfigFile {
+  path: string;
+  format: ConfigFileFormat;
+  values: Record<string, unknown>;
+}
+
+/**
+ * ファイル名から設定ファイルの形式を判定する関数
+ * @param path 設定ファイルのパス
+ * @returns 設定ファイルの形式 (判定できない場合は undefined)
+ */
+export function detectConfigFileFormat(
+  path: string,
+): ConfigFileFormat | undefined {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".json") return "json";
+  if (extension === ".jsonc") return "jsonc";
+  if (extension === ".toml") return "toml";
+  // ".env" や "production.env" のような名前は extname では判定できないため個別に扱う
+  if (extension === ".env" || path.split(/[\\/]/).pop()?.startsWith(".env")) {
+    return "env";
+  }
+  return undefined;
+}
+
+/**
+ * JSON/JSONC/TOML/.env 形式の設定ファイルを読み込む関数
+ * @param path 設定ファイルのパス
+ * @returns 読み込んだ設定ファイルを含むResult
+ */
+export function readConfigFile(path: string): Result<ConfigFile, Error> {
+  const format = detectConfigFileFormat(path);
+  if (!format) {
+    return err(
+      new Error(
+        `Unsupported config file format: ${path} (expected .json, .jsonc, .toml or .env)`,
+      ),
+    );
+  }
+
+  try {
+    const text = Deno.readTextFileSync(path);
+    let values: unknown;
+    if (format === "json") {
+      values = JSON.parse(text);
+    } else if (format === "jsonc") {
+      values = parseJsonc(text);
+    } else if (format === "toml") {
+      values = parseToml(text);
+    } else {
+      values = parseDotenv(text);
+    }
+
+    if (
+      typeof values !== "object" || values === null || Array.isArray(values)
+    ) {
+      return err(new Error(`Config file must contain an object: ${path}`));
+    }
+    return ok({ path, format, values: values as Record<string, unknown> });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to read config file ${path}: ${errorMessage}`),
+    );
+  }
+}
+
+/**
+ * 環境変数の読み取りが許可されているかどうかを判定する関数
+ * 権限の確認ダイアログは表示しません。
+ * 許可されていない場合の undefined と、設定されていない場合を区別するために使用します。
+ * @param name 環境変数名
+ * @returns 読み取りが許可されている場合は true
+ */
+export function canReadEnv(name: string): boolean {
+  return Deno.permissions.querySync({ name: "env", variable: name }).state ===
+    "granted";
+}
+
+/**
+ * 環境変数を読み取る関数
+ * 権限の確認ダイアログを表示しないよう、読み取りが許可されている場合のみ読み取ります
+ * (--allow-env なしで実行した場合も例外を投げず、設定されていないものとして扱う)。
+ * 必須の値 (秘密鍵など) は、canReadEnv で許可されていない場合を区別してください。
+ * @param name 環境変数名
+ * @returns 環境変数の値 (設定されていない場合や読み取りが許可されていない場合は undefined)
+ */
+export function readEnv(name: string): string | undefined {
+  return canReadEnv(name) ? Deno.env.get(name) : undefined;
+}
+
+/**
+ * 引数のキーのパスから環境変数名を生成する関数
+ * @param path キャメルケースのキーのパス (例: ["gas", "maxFee"])
+ * @param prefix 環境変数名の接頭辞 (例: "MYTOOL")
+ * @returns 環境変数名 (例: "MYTOOL_GAS_MAX_FEE")
+ */
+export function toEnvName(path: string[], prefix?: string): string {
+  return [prefix, ...path]
+    .filter((part): part is string => Boolean(part))
+    .map((part) => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2"))
+    .join("_")
+    .replace(/[-.]/g, "_")
+    .toUpperCase();
+}
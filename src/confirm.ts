@@ -0,0 +1,316 @@
+import type { Logger } from "@logtape/logtape";
+import { err, ok, type Result } from "neverthrow";
+import {
+  type Account,
+  type Address,
+  BaseError,
+  formatUnits,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { createEthPublicClient, type EthClientArgs } from "./clients.ts";
+import { getMessages, type LocaleOptions } from "./i18n.ts";
+import { writeConsole } from "./logger.ts";
+import { getNetwork } from "./networks.ts";
+import { isInteractiveTerminal, promptConfirm } from "./prompt.ts";
+import { getAccount } from "./utils.ts";
+
+/**
+ * 状態を変更する操作の実行内容
+ * confirmAction で表示し、ログにも記録します。
+ */
+export interface ActionSummary {
+  /** 操作の説明 (例: "USDCの送金") */
+  action: string;
+  /** ネットワーク名 */
+  network: string;
+  chainId: number;
+  /** 署名するアカウントのアドレス */
+  signer?: Address;
+  /** 送信先のアドレス */
+  target?: Address;
+  /** 送金するネイティブ通貨の量 (wei) */
+  value?: bigint;
+  /** 推定ガス量 */
+  estimatedGas?: bigint;
+  /** ガス量の推定に失敗した場合のエラーメッセージ (トランザクションが失敗する可能性が高い) */
+  estimateGasError?: string;
+  /** その他に表示する項目 (例: { トークン: "USDC", 件数: 120 }) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * summarizeTransaction関数に渡すトランザクションの内容
+ */
+export interface TransactionRequest {
+  /** 操作の説明 (例: "USDCの送金") */
+  action: string;
+  to: Address;
+  /** 送金するネイティブ通貨の量 (wei) */
+  value?: bigint;
+  data?: Hex;
+  /** その他に表示する項目 */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * summarizeTransaction関数に渡すオプションを定義するインターフェース
+ */
+export interface SummarizeTransactionOptions {
+  /** 署名するアカウント (省略時は getAccount で privateKey 引数、または環境変数 PRIVATE_KEY から作成) */
+  account?: Account;
+  /** ガス量の推定に使用するクライアント (省略時は createEthPublicClient で作成) */
+  publicClient?: PublicClient;
+}
+
+/**
+ * confirmAction関数に渡すオプションを定義するインターフェース
+ * ConfirmArgsSchema の解析結果 (dryRun, yes) をそのまま渡せます。
+ */
+export interface ConfirmOptions extends LocaleOptions {
+  /** 実行内容と確認の結果を記録するロガー */
+  logger: Logger;
+  /** 実行内容を表示するだけで、実行しない */
+  dryRun?: boolean;
+  /** 確認を省略して実行する */
+  yes?: boolean;
+  /** 確認を求めることができるか (デフォルト: isInteractiveTerminal() の結果) */
+  interactive?: boolean;
+}
+
+/**
+ * confirmAction の結果
+ * - "execute": 操作を実行する
+ * - "dryRun": --dry-run が指定されたため、操作を実行しない
+ */
+export type ConfirmOutcome = "execute" | "dryRun";
+
+/**
+ * 操作の実行が確認されなかったことを表すエラー
+ * - "declined": 確認で「いいえ」が選択された
+ * - "yesRequired": 対話的に確認できない環境で、メインネットでの実行に --yes が指定されていない
+ */
+export class ConfirmationError extends Error {
+  readonly kind = "confirmation";
+
+  constructor(
+    readonly reason: "declined" | "yesRequired",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ConfirmationError";
+  }
+}
+
+// ローカルの開発用ノード (anvil, hardhat, ganache) のチェーンID
+const LOCAL_CHAIN_IDS = new Set([31337, 1337]);
+
+/**
+ * ネットワークがメインネット (実際の資産を扱うネットワーク) かどうかを判定する関数
+ * testnet が設定されていないネットワークはメインネットとみなします
+ * (ローカルの開発用ノードのチェーンIDを除く)。登録されていないネットワークもメインネットとみなします。
+ * @param name ネットワーク名
+ * @returns メインネットの場合は true
+ */
+export function isMainnetNetwork(name: string): boolean {
+  const network = getNetwork(name);
+  if (!network) return true;
+  return network.testnet !== true && !LOCAL_CHAIN_IDS.has(network.chainId);
+}
+
+/**
+ * トランザクションの実行内容 (ネットワーク・署名者・送信先・送金額・推定ガス量) をまとめる関数
+ * ガス量の推定に失敗した場合 (トランザクションが失敗する場合など) も、--dry-run で内容を確認できるよう
+ * estimatedGas を undefined、estimateGasError をエラーメッセージとした実行内容を返します。
+ * @param args network, rpcUrl, privateKey を含む引数 (EthArgsSchema の解析結果など)
+ * @param request トランザクションの内容
+ * @param options 署名するアカウントやガス量の推定に使用するクライアント
+ * @returns 実行内容を含むResult (ネットワーク・アカウント・クライアントを用意できない場合はエラー)
+ */
+export async function summarizeTransaction(
+  args: EthClientArgs,
+  request: TransactionRequest,
+  options: SummarizeTransactionOptions = {},
+): Promise<Result<ActionSummary, Error>> {
+  const network = getNetwork(args.network);
+  if (!network) return err(new Error(`Unknown network: ${args.network}`));
+
+  let account = options.account;
+  if (!account) {
+    const accountResult = getAccount(args.privateKey);
+    if (accountResult.isErr()) return err(accountResult.error);
+    account = accountResult.value;
+  }
+
+  let publicClient = options.publicClient;
+  if (!publicClient) {
+    const clientResult = createEthPublicClient(args);
+    if (clientResult.isErr()) return err(clientResult.error);
+    publicClient = clientResult.value.publicClient;
+  }
+
+  const summary: ActionSummary = {
+    action: request.action,
+    network: network.name,
+    chainId: network.chainId,
+    signer: account.address,
+    target: request.to,
+    value: request.value,
+    details: request.details,
+  };
+  try {
+    // 推定には送信元のアドレスのみを使用する (ローカルアカウントの場合の署名の準備を省く)
+    summary.estimatedGas = await publicClient.estimateGas({
+      account: account.address,
+      to: request.to,
+      value: request.value,
+      data: request.data,
+    });
+  } catch (error: unknown) {
+    // viem のエラーは詳細が複数行にわたるため、要約 (shortMessage) があれば使用する
+    summary.estimateGasError = error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+      ? error.message
+      : String(error);
+  }
+  return ok(summary);
+}
+
+/**
+ * 実行内容を人が読める形式の文字列に変換する関数
+ * @param summary 実行内容
+ * @param locale メッセージの言語 (省略時は環境変数から判定)
+ * @returns 見出しと項目ごとの行からなる文字列 (末尾に改行を含む)
+ */
+export function formatActionSummary(
+  summary: ActionSummary,
+  locale?: string,
+): string {
+  const messages = getMessages(locale);
+  const labels = messages.actionSummaryLabels;
+  const nativeCurrency = getNetwork(summary.network)?.nativeCurrency;
+  const rows: [string, string][] = [
+    [labels.action, summary.action],
+    [
+      labels.network,
+      `${summary.network} (${labels.chainId}: ${summary.chainId}, ${
+        messages.networkKind(isMainnetNetwork(summary.network))
+      })`,
+    ],
+  ];
+  if (summary.signer) rows.push([labels.signer, summary.signer]);
+  if (summary.target) rows.push([labels.target, summary.target]);
+  if (summary.value !== undefined) {
+    rows.push([
+      labels.value,
+      nativeCurrency
+        ? `${
+          formatUnits(summary.value, nativeCurrency.decimals)
+        } ${nativeCurrency.symbol}`
+        : `${summary.value} wei`,
+    ]);
+  }
+  if (summary.estimatedGas !== undefined) {
+    rows.push([labels.estimatedGas, summary.estimatedGas.toLocaleString()]);
+  } else if (summary.estimateGasError !== undefined) {
+    rows.push([
+      labels.estimatedGas,
+      messages.estimateGasFailed(summary.estimateGasError),
+    ]);
+  }
+  for (const [label, value] of Object.entries(summary.details ?? {})) {
+    rows.push([label, String(value)]);
+  }
+  return [
+    `${messages.actionSummaryTitle}:`,
+    ...rows.map(([label, value]) => `  ${label}: ${value}`),
+  ].map((line) => `${line}\n`).join("");
+}
+
+/**
+ * 状態を変更する操作の前に実行内容を表示し、実行してよいかを確認する関数
+ * 実行内容は標準エラー出力に表示し、ロガーにも記録します。
+ * - dryRun が指定された場合は、実行内容の表示のみで "dryRun" を返します。
+ * - yes が指定された場合は、確認を省略して "execute" を返します。
+ * - 端末では確認を求め、「いいえ」の場合は ConfirmationError を返します。
+ * - 端末でない場合、テストネットではそのまま実行し、メインネットでは ConfirmationError を返します。
+ *   ガス量の推定に失敗している場合 (estimateGasError) は、テストネットでも ConfirmationError を返します。
+ * @param summary 実行内容 (summarizeTransaction で作成できる)
+ * @param options ロガー・dryRun・yes などの設定
+ * @returns 操作を実行するかどうかを含むResult
+ */
+export function confirmAction(
+  summary: ActionSummary,
+  options: ConfirmOptions,
+): Result<ConfirmOutcome, ConfirmationError> {
+  const {
+    logger,
+    dryRun = false,
+    yes = false,
+    interactive = isInteractiveTerminal(),
+    locale,
+  } = options;
+  const mainnet = isMainnetNetwork(summary.network);
+  writeConsole(formatActionSummary(summary, locale), true);
+  logger.info("{action} の実行内容: {network} (チェーンID: {chainId})", {
+    ...summary,
+    mainnet,
+    dryRun,
+  });
+
+  if (summary.estimateGasError !== undefined) {
+    logger.warn(
+      "{action} のガス量の推定に失敗しました。実行すると失敗する可能性があります: {error}",
+      { action: summary.action, error: summary.estimateGasError },
+    );
+  }
+
+  if (dryRun) {
+    logger.info("--dry-run が指定されたため、{action} を実行しません", {
+      action: summary.action,
+    });
+    return ok("dryRun");
+  }
+  if (yes) {
+    logger.info(
+      "--yes が指定されたため、確認を省略して {action} を実行します",
+      {
+        action: summary.action,
+      },
+    );
+    return ok("execute");
+  }
+  if (interactive) {
+    if (promptConfirm(getMessages(locale).confirmAction(summary.action))) {
+      return ok("execute");
+    }
+    logger.warn("{action} の実行が取り消されました", {
+      action: summary.action,
+    });
+    return err(
+      new ConfirmationError("declined", `${summary.action} was cancelled`),
+    );
+  }
+  if (summary.estimateGasError !== undefined) {
+    return err(
+      new ConfirmationError(
+        "yesRequired",
+        `Refusing to run ${summary.action} on ${summary.network} without confirmation because gas estimation failed: pass --yes to run it anyway`,
+      ),
+    );
+  }
+  if (mainnet) {
+    return err(
+      new ConfirmationError(
+        "yesRequired",
+        `Refusing to run ${summary.action} on ${summary.network} without confirmation: pass --yes to run it in a non-interactive session`,
+      ),
+    );
+  }
+  logger.info(
+    "対話的に確認できないため、テストネット ({network}) で {action} を実行します",
+    { action: summary.action, network: summary.network },
+  );
+  return ok("execute");
+}
@@ -0,0 +1,755 @@
+import { parse, stringify } from "jsr:@std/csv@^1.0.6";
+import { extname } from "jsr:@std/path@^1.0.8";
+import type { Logger } from "@logtape/logtape";
+import { err, ok, type Result } from "neverthrow";
+import type { z } from "zod@next";
+import { coerceArgValue } from "./args.ts";
+
+/**
+ * 対応しているデータファイルの形式
+ */
+export type DataFileFormat = "csv" | "tsv" | "jsonl";
+
+/**
+ * 対応しているデータファイルの形式の一覧
+ */
+export const dataFileFormats: readonly DataFileFormat[] = [
+  "csv",
+  "tsv",
+  "jsonl",
+];
+
+/**
+ * openDataFile関数などに渡すオプションを定義するインターフェース
+ */
+export interface DataFileReadOptions<S extends z.ZodObject> {
+  /** 各行を検証するスキーマ (セルの文字列は processArgs と同様にスキーマの型に変換される) */
+  schema: S;
+  /** 不正な行と読み込みの結果を記録するロガー */
+  logger: Logger;
+  /** ファイルの形式 (デフォルト: 拡張子から判定し、判定できない場合は "csv") */
+  format?: DataFileFormat;
+  /**
+   * スキーマのキーごとに、ヘッダーとして受け付ける別名
+   * ヘッダーは大文字・小文字、空白・"_"・"-" の違いを無視して照合します (例: to_address → toAddress)。
+   */
+  aliases?: Partial<Record<Extract<keyof z.infer<S>, string>, string[]>>;
+  /** 不正な行を、元の値とエラーの内容とともに出力するファイルのパス (入力と同じ形式) */
+  errorReportPath?: string;
+  /** 不正な行ごとに呼び出される関数 */
+  onRejectedRow?: (row: RejectedDataRow) => void;
+}
+
+/**
+ * 検証に成功した行
+ */
+export interface DataRow<T> {
+  /** ファイル上の行番号 (空行やヘッダーも数え、複数行にわたるセルを含む行は開始行) */
+  rowNumber: number;
+  data: T;
+}
+
+/**
+ * 行の検証エラー
+ */
+export interface DataCellError {
+  /** エラーのある列のヘッダー (行全体のエラーの場合は undefined) */
+  column?: string;
+  message: string;
+}
+
+/**
+ * 検証に失敗した行
+ */
+export interface RejectedDataRow {
+  /** ファイル上の行番号 (空行やヘッダーも数え、複数行にわたるセルを含む行は開始行) */
+  rowNumber: number;
+  /** 元の値 (ヘッダーと値の対応) */
+  values: Record<string, unknown>;
+  errors: DataCellError[];
+}
+
+/**
+ * データファイルの読み込みの結果
+ */
+export interface DataFileSummary {
+  path: string;
+  /** 読み込んだ行の数 (ヘッダーと空行を除く) */
+  total: number;
+  /** 検証に成功した行の数 */
+  valid: number;
+  /** 検証に失敗した行の数 */
+  invalid: number;
+  /** 不正な行を出力したファイルのパス (不正な行がない場合は undefined) */
+  errorReportPath?: string;
+}
+
+/**
+ * データファイルを1行ずつ読み込むリーダー
+ */
+export interface DataFileReader<T> {
+  path: string;
+  format: DataFileFormat;
+  /** CSV/TSVのヘッダー (JSONLの場合は空) */
+  headers: string[];
+  /**
+   * 検証に成功した行を順に返す (1回のみ呼び出せる)
+   * 不正な行はロガーとエラーレポートに記録して読み飛ばし、CSVの構文エラーの場合は例外を投げます。
+   * 最後まで読み込むと、ファイルを閉じて結果をロガーに記録します。
+   */
+  rows(): AsyncGenerator<DataRow<T>, void, undefined>;
+  /** ここまでの読み込みの結果を返す */
+  summary(): DataFileSummary;
+  /** 途中で読み込みをやめる場合に、ファイルを閉じる */
+  close(): Promise<void>;
+}
+
+/**
+ * readDataFile関数で読み込んだデータファイルの内容
+ */
+export interface DataFileContents<T> {
+  rows: DataRow<T>[];
+  rejectedRows: RejectedDataRow[];
+  summary: DataFileSummary;
+}
+
+/**
+ * createDataFileWriter関数などに渡すオプションを定義するインターフェース
+ */
+export interface DataFileWriteOptions {
+  /** 書き込んだ件数を記録するロガー */
+  logger: Logger;
+  /** ファイルの形式 (デフォルト: 拡張子から判定し、判定できない場合は "csv") */
+  format?: DataFileFormat;
+  /** 書き込む前に各行を検証するスキーマ (検証後の値を書き込み、列の順序にも使用する) */
+  schema?: z.ZodObject;
+  /** 書き込む列の順序 (デフォルト: schema のキー、なければ最初の行のキー) */
+  columns?: string[];
+  /** 既存のファイルに追記する (空でないファイルにはヘッダーを書き込まない) */
+  append?: boolean;
+}
+
+/**
+ * データファイルに1行ずつ書き込むライター
+ */
+export interface DataFileWriter<T> {
+  path: string;
+  format: DataFileFormat;
+  /** 1行を書き込む (schema を指定した場合、検証に失敗した行は書き込まずにエラーを返す) */
+  write(row: T): Promise<Result<void, Error>>;
+  /** ファイルを閉じ、書き込んだ件数をロガーに記録する */
+  close(): Promise<void>;
+}
+
+// エラーレポートに追加する列の名前
+const REPORT_ROW_NUMBER_COLUMN = "_row";
+const REPORT_ERRORS_COLUMN = "_errors";
+
+const textEncoder = new TextEncoder();
+
+/**
+ * ファイルの拡張子からデータファイルの形式を判定する関数
+ * @param path ファイルのパス
+ * @returns データファイルの形式 (.tsv は "tsv"、.jsonl/.ndjson は "jsonl"、それ以外は "csv")
+ */
+export function detectDataFileFormat(path: string): DataFileFormat {
+  switch (extname(path).toLowerCase()) {
+    case ".tsv":
+      return "tsv";
+    case ".jsonl":
+    case ".ndjson":
+      return "jsonl";
+    default:
+      return "csv";
+  }
+}
+
+// ヘッダーを照合するために正規化するヘルパー関数
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, "");
+}
+
+// ヘッダー (JSONLの場合はキー) とスキーマのキーを対応付けるヘルパー関数
+function mapHeaders(
+  headers: string[],
+  keys: string[],
+  aliases: Partial<Record<string, string[]>>,
+): Result<Map<string, string>, Error> {
+  const keysByName = new Map<string, string>();
+  for (const key of keys) {
+    for (const name of [key, ...(aliases[key] ?? [])]) {
+      keysByName.set(normalizeHeader(name), key);
+    }
+  }
+  // スキーマのキー → ヘッダー
+  const headersByKey = new Map<string, string>();
+  for (const header of headers) {
+    const key = keysByName.get(normalizeHeader(header));
+    if (key === undefined) continue;
+    const existing = headersByKey.get(key);
+    if (existing !== undefined) {
+      return err(
+        new Error(
+          `Columns "${existing}" and "${header}" both map to "${key}"`,
+        ),
+      );
+    }
+    headersByKey.set(key, header);
+  }
+  return ok(headersByKey);
+}
+
+// スキーマのうち、値を省略できないキーを返すヘルパー関数
+function getRequiredKeys(schema: z.ZodObject): string[] {
+  return Object.entries(schema.shape)
+    .filter(([, fieldSchema]) =>
+      !(fieldSchema as z.ZodTypeAny).safeParse(undefined).success
+    )
+    .map(([key]) => key);
+}
+
+// 行の検証エラーを1つの文字列にまとめるヘルパー関数
+function formatCellErrors(errors: DataCellError[]): string {
+  return errors.map((error) =>
+    error.column !== undefined
+      ? `${error.column}: ${error.message}`
+      : error.message
+  ).join("; ");
+}
+
+// テキストのストリームを1行ずつ返すヘルパー関数
+async function* readLines(
+  stream: ReadableStream<string>,
+): AsyncGenerator<string, void, undefined> {
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) yield line.replace(/\r$/, "");
+  }
+  if (buffer !== "") yield buffer.replace(/\r$/, "");
+}
+
+/**
+ * CSV/TSVの1レコード分のテキストと、ファイル上の開始行番号
+ */
+interface CsvRecordText {
+  lineNumber: number;
+  text: string;
+}
+
+// CSV/TSVの行を、引用符で囲まれたセル内の改行を含むレコードごとにまとめて返すヘルパー関数
+// (エラーの行番号をファイル上の行と一致させるため、空行を読み飛ばしながら行番号を数える)
+async function* readCsvRecords(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<CsvRecordText, void, undefined> {
+  let lineNumber = 0;
+  let startLineNumber = 0;
+  let pendingLines: string[] = [];
+  let quoteCount = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (pendingLines.length === 0) {
+      if (line === "") continue;
+      startLineNumber = lineNumber;
+    }
+    pendingLines.push(line);
+    // 引用符の数が奇数の間は、セルが次の行に続いている
+    quoteCount += line.split('"').length - 1;
+    if (quoteCount % 2 !== 0) continue;
+    yield { lineNumber: startLineNumber, text: pendingLines.join("\n") };
+    pendingLines = [];
+    quoteCount = 0;
+  }
+  // 閉じられていない引用符は、解析時にエラーとして扱う
+  if (pendingLines.length > 0) {
+    yield { lineNumber: startLineNumber, text: pendingLines.join("\n") };
+  }
+}
+
+// CSV/TSVの1レコード分のテキストをセルに分割するヘルパー関数
+function parseCsvRecord(text: string, format: DataFileFormat): string[] {
+  const [cells] = parse(text, { separator: format === "tsv" ? "\t" : "," });
+  return cells ?? [];
+}
+
+// セルの値を文字列に変換するヘルパー関数
+function formatCellValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    return JSON.stringify(
+      value,
+      (_key, nestedValue) =>
+        typeof nestedValue === "bigint" ? nestedValue.toString() : nestedValue,
+    );
+  }
+  return String(value);
+}
+
+// JSONLの1行を作成するヘルパー関数 (bigint は文字列に変換する)
+function formatJsonLine(value: Record<string, unknown>): string {
+  return `${
+    JSON.stringify(value, (_key, nestedValue) =>
+      typeof nestedValue === "bigint" ? nestedValue.toString() : nestedValue)
+  }\n`;
+}
+
+// CSV/TSVの1行を作成するヘルパー関数 (@std/csv と同じく改行は CRLF)
+function formatCsvLine(cells: unknown[], format: DataFileFormat): string {
+  return stringify([cells.map(formatCellValue)], {
+    separator: format === "tsv" ? "\t" : ",",
+  });
+}
+
+// ファイルに文字列を全て書き込むヘルパー関数
+async function writeText(file: Deno.FsFile, text: string): Promise<void> {
+  const data = textEncoder.encode(text);
+  let written = 0;
+  while (written < data.length) {
+    written += await file.write(data.subarray(written));
+  }
+}
+
+/**
+ * データファイル (CSV/TSV/JSONL) を開き、1行ずつ検証しながら読み込むリーダーを作成する関数
+ * 列はヘッダーの名前 (aliases で別名も指定可能) でスキーマのキーに対応付け、
+ * 空のセルは値がないものとして扱います。スキーマにない列は無視します。
+ * 不正な行はエラーの行番号・列とともにロガーに記録し、errorReportPath に出力します。
+ * ファイルを開けない場合や、CSV/TSVのヘッダーに必須の列がない場合はエラーを返します。
+ * @param path データファイルのパス
+ * @param options スキーマ・ロガー・列の別名などの設定
+ * @returns リーダーを含むResult
+ */
+export async function openDataFile<S extends z.ZodObject>(
+  path: string,
+  options: DataFileReadOptions<S>,
+): Promise<Result<DataFileReader<z.infer<S>>, Error>> {
+  const { schema, logger, errorReportPath, onRejectedRow } = options;
+  const format = options.format ?? detectDataFileFormat(path);
+  const keys = Object.keys(schema.shape);
+  const aliases: Partial<Record<string, string[]>> = options.aliases ?? {};
+
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(path, { read: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to open ${path}: ${errorMessage}`));
+  }
+  const textStream = file.readable.pipeThrough(new TextDecoderStream());
+
+  // CSV/TSVは、先にヘッダーを読み込んで列の対応を検証する
+  let headers: string[] = [];
+  let headersByKey = new Map<string, string>();
+  let records: AsyncGenerator<CsvRecordText, void, undefined> | undefined;
+  let lines: AsyncGenerator<string, void, undefined> | undefined;
+  if (format === "jsonl") {
+    lines = readLines(textStream);
+  } else {
+    records = readCsvRecords(readLines(textStream));
+    try {
+      const first = await records.next();
+      headers = first.done
+        ? []
+        : parseCsvRecord(first.value.text, format).map((header) =>
+          header.trim()
+        );
+    } catch (error: unknown) {
+      await records.return();
+      const errorMessage = error instanceof Error
+        ? error.message
+        : String(error);
+      return err(
+        new Error(`Failed to read header of ${path}: ${errorMessage}`),
+      );
+    }
+    const mappingResult = mapHeaders(headers, keys, aliases);
+    if (mappingResult.isErr()) {
+      await records.return();
+      return err(new Error(`${mappingResult.error.message} in ${path}`));
+    }
+    headersByKey = mappingResult.value;
+    const missingKeys = getRequiredKeys(schema).filter((key) =>
+      !headersByKey.has(key)
+    );
+    if (missingKeys.length > 0) {
+      await records.return();
+      return err(
+        new Error(
+          `Missing required columns in ${path}: ${
+            missingKeys.join(", ")
+          } (found: ${headers.join(", ")})`,
+        ),
+      );
+    }
+    const ignoredHeaders = headers.filter((header) =>
+      ![...headersByKey.values()].includes(header)
+    );
+    if (ignoredHeaders.length > 0) {
+      logger.debug("{path}: 次の列は使用しません: {columns}", {
+        path,
+        columns: ignoredHeaders.join(", "),
+      });
+    }
+  }
+
+  const summary: DataFileSummary = { path, total: 0, valid: 0, invalid: 0 };
+  let report: Deno.FsFile | undefined;
+  let closed = false;
+  let started = false;
+
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    await records?.return();
+    await lines?.return();
+    report?.close();
+  };
+
+  // 不正な行をロガーとエラーレポートに記録するヘルパー関数
+  const reject = async (row: RejectedDataRow) => {
+    summary.invalid++;
+    logger.warn("{path} の {rowNumber} 行目を読み飛ばしました: {reason}", {
+      path,
+      rowNumber: row.rowNumber,
+      reason: formatCellErrors(row.errors),
+      errors: row.errors,
+    });
+    onRejectedRow?.(row);
+    if (!errorReportPath) return;
+
+    const errorsText = formatCellErrors(row.errors);
+    if (!report) {
+      report = await Deno.open(errorReportPath, {
+        write: true,
+        create: true,
+        truncate: true,
+      });
+      summary.errorReportPath = errorReportPath;
+      if (format !== "jsonl") {
+        await writeText(
+          report,
+          formatCsvLine(
+            [...headers, REPORT_ROW_NUMBER_COLUMN, REPORT_ERRORS_COLUMN],
+            format,
+          ),
+        );
+      }
+    }
+    await writeText(
+      report,
+      format === "jsonl"
+        ? formatJsonLine({
+          ...row.values,
+          [REPORT_ROW_NUMBER_COLUMN]: row.rowNumber,
+          [REPORT_ERRORS_COLUMN]: errorsText,
+        })
+        : formatCsvLine(
+          [
+            ...headers.map((header) => row.values[header]),
+            row.rowNumber,
+            errorsText,
+          ],
+          format,
+        ),
+    );
+  };
+
+  // 1行分の値を検証するヘルパー関数
+  const validate = async (
+    rowNumber: number,
+    values: Record<string, unknown>,
+    rowHeadersByKey: Map<string, string>,
+  ): Promise<DataRow<z.infer<S>> | undefined> => {
+    summary.total++;
+    const input: Record<string, unknown> = {};
+    for (const [key, header] of rowHeadersByKey) {
+      const value = values[header];
+      // 空のセルは値がないものとして扱い、optional や default を適用させる
+      if (value === undefined || value === null || value === "") continue;
+      input[key] = typeof value === "string"
+        ? coerceArgValue(schema.shape[key] as z.ZodTypeAny, value.trim())
+        : value;
+    }
+    const parsed = schema.safeParse(input);
+    if (parsed.success) {
+      summary.valid++;
+      return { rowNumber, data: parsed.data };
+    }
+    await reject({
+      rowNumber,
+      values,
+      errors: parsed.error.issues.map((issue) => {
+        const key = issue.path[0];
+        return {
+          column: typeof key === "string"
+            ? rowHeadersByKey.get(key) ?? key
+            : undefined,
+          message: issue.message,
+        };
+      }),
+    });
+    return undefined;
+  };
+
+  async function* rows(): AsyncGenerator<DataRow<z.infer<S>>, void, undefined> {
+    if (started) throw new Error(`Rows of ${path} have already been read`);
+    started = true;
+    try {
+      if (lines) {
+        let lineNumber = 0;
+        for await (const line of lines) {
+          lineNumber++;
+          if (line.trim() === "") continue;
+          let values: unknown;
+          try {
+            values = JSON.parse(line);
+          } catch (error: unknown) {
+            const errorMessage = error instanceof Error
+              ? error.message
+              : String(error);
+            summary.total++;
+            await reject({
+              rowNumber: lineNumber,
+              values: { line },
+              errors: [{ message: `Invalid JSON: ${errorMessage}` }],
+            });
+            continue;
+          }
+          if (
+            typeof values !== "object" || values === null ||
+            Array.isArray(values)
+          ) {
+            summary.total++;
+            await reject({
+              rowNumber: lineNumber,
+              values: { line },
+              errors: [{ message: "Expected a JSON object" }],
+            });
+            continue;
+          }
+          const record = values as Record<string, unknown>;
+          const mappingResult = mapHeaders(Object.keys(record), keys, aliases);
+          if (mappingResult.isErr()) {
+            summary.total++;
+            await reject({
+              rowNumber: lineNumber,
+              values: record,
+              errors: [{ message: mappingResult.error.message }],
+            });
+            continue;
+          }
+          const row = await validate(lineNumber, record, mappingResult.value);
+          if (row) yield row;
+        }
+      } else if (records) {
+        for await (const { lineNumber: rowNumber, text } of records) {
+          let cells: string[];
+          try {
+            cells = parseCsvRecord(text, format);
+          } catch (error: unknown) {
+            const errorMessage = error instanceof Error
+              ? error.message
+              : String(error);
+            throw new Error(
+              `Failed to parse ${path} at line ${rowNumber}: ${errorMessage}`,
+            );
+          }
+          const values = Object.fromEntries(
+            headers.map((header, index) => [header, cells[index]]),
+          );
+          if (cells.length !== headers.length) {
+            summary.total++;
+            await reject({
+              rowNumber,
+              values,
+              errors: [{
+                message:
+                  `Expected ${headers.length} columns, got ${cells.length}`,
+              }],
+            });
+            continue;
+          }
+          const row = await validate(rowNumber, values, headersByKey);
+          if (row) yield row;
+        }
+      }
+
+      logger.info(
+        "{path}: {valid} 件を読み込みました (不正な行: {invalid} 件)",
+        { ...summary },
+      );
+      if (summary.errorReportPath) {
+        logger.warn("不正な行を {errorReportPath} に出力しました", {
+          errorReportPath: summary.errorReportPath,
+        });
+      }
+    } finally {
+      await close();
+    }
+  }
+
+  return ok({
+    path,
+    format,
+    headers,
+    rows,
+    summary: () => ({ ...summary }),
+    close,
+  });
+}
+
+/**
+ * データファイル (CSV/TSV/JSONL) の全ての行を検証しながら読み込む関数
+ * 大きなファイルを1行ずつ処理する場合は openDataFile を使用してください。
+ * @param path データファイルのパス
+ * @param options スキーマ・ロガー・列の別名などの設定
+ * @returns 検証に成功した行と失敗した行、読み込みの結果を含むResult
+ */
+export async function readDataFile<S extends z.ZodObject>(
+  path: string,
+  options: DataFileReadOptions<S>,
+): Promise<Result<DataFileContents<z.infer<S>>, Error>> {
+  const rejectedRows: RejectedDataRow[] = [];
+  const readerResult = await openDataFile(path, {
+    ...options,
+    onRejectedRow: (row) => {
+      rejectedRows.push(row);
+      options.onRejectedRow?.(row);
+    },
+  });
+  if (readerResult.isErr()) return err(readerResult.error);
+  const reader = readerResult.value;
+
+  const rows: DataRow<z.infer<S>>[] = [];
+  try {
+    for await (const row of reader.rows()) rows.push(row);
+  } catch (error: unknown) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+  return ok({ rows, rejectedRows, summary: reader.summary() });
+}
+
+/**
+ * データファイル (CSV/TSV/JSONL) に1行ずつ書き込むライターを作成する関数
+ * CSV/TSVの列の順序は columns、schema のキー、最初の行のキーの順に決定します。
+ * Date はISO 8601形式、bigint は10進数、オブジェクトはJSONとして書き込みます。
+ * @param path 書き込むファイルのパス
+ * @param options ロガー・スキーマ・列の順序・追記の有無などの設定
+ * @returns ライターを含むResult
+ */
+export async function createDataFileWriter<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(
+  path: string,
+  options: DataFileWriteOptions,
+): Promise<Result<DataFileWriter<T>, Error>> {
+  const { logger, schema, append = false } = options;
+  const format = options.format ?? detectDataFileFormat(path);
+
+  let file: Deno.FsFile;
+  let hasContent = false;
+  try {
+    file = await Deno.open(path, {
+      write: true,
+      create: true,
+      append,
+      truncate: !append,
+    });
+    hasContent = append && (await file.stat()).size > 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to open ${path}: ${errorMessage}`));
+  }
+
+  let columns = options.columns ??
+    (schema ? Object.keys(schema.shape) : undefined);
+  let written = 0;
+  let closed = false;
+
+  return ok({
+    path,
+    format,
+    write: async (row) => {
+      if (closed) return err(new Error(`${path} has already been closed`));
+      let value: Record<string, unknown> = row;
+      if (schema) {
+        const parsed = schema.safeParse(row);
+        if (!parsed.success) {
+          const issues = parsed.error.issues.map((issue) =>
+            `${issue.path.join(".")}: ${issue.message}`
+          );
+          return err(
+            new Error(
+              `Invalid row for ${path} (row ${written + 1}): ${
+                issues.join(", ")
+              }`,
+            ),
+          );
+        }
+        value = parsed.data as Record<string, unknown>;
+      }
+
+      try {
+        if (format === "jsonl") {
+          await writeText(file, formatJsonLine(value));
+        } else {
+          if (!columns) columns = Object.keys(value);
+          if (!hasContent) {
+            await writeText(file, formatCsvLine(columns, format));
+            hasContent = true;
+          }
+          await writeText(
+            file,
+            formatCsvLine(columns.map((column) => value[column]), format),
+          );
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error
+          ? error.message
+          : String(error);
+        return err(new Error(`Failed to write to ${path}: ${errorMessage}`));
+      }
+      written++;
+      return ok(undefined);
+    },
+    close: () => {
+      if (closed) return Promise.resolve();
+      closed = true;
+      file.close();
+      logger.info("{path}: {written} 件を書き込みました", { path, written });
+      return Promise.resolve();
+    },
+  });
+}
+
+/**
+ * データファイル (CSV/TSV/JSONL) に全ての行を書き込む関数
+ * @param path 書き込むファイルのパス
+ * @param rows 書き込む行
+ * @param options ロガー・スキーマ・列の順序・追記の有無などの設定
+ * @returns 書き込んだ行の数を含むResult
+ */
+export async function writeDataFile<T extends Record<string, unknown>>(
+  path: string,
+  rows: Iterable<T> | AsyncIterable<T>,
+  options: DataFileWriteOptions,
+): Promise<Result<number, Error>> {
+  const writerResult = await createDataFileWriter<T>(path, options);
+  if (writerResult.isErr()) return err(writerResult.error);
+  const writer = writerResult.value;
+
+  let count = 0;
+  try {
+    for await (const row of rows) {
+      const writeResult = await writer.write(row);
+      if (writeResult.isErr()) return err(writeResult.error);
+      count++;
+    }
+  } finally {
+    await writer.close();
+  }
+  return ok(count);
+}
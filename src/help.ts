@@ -0,0 +1,223 @@
+import { bold, cyan, dim } from "jsr:@std/fmt@^1.0.8/colors";
+import type { z } from "zod@next";
+import type { HelpSection } from "./args.ts";
+import { getMessages, type LocaleOptions } from "./i18n.ts";
+
+/**
+ * ヘルプメッセージに表示する使用例
+ */
+export interface HelpExample {
+  /** 実行するコマンド (例: "tool deploy --target mainnet") */
+  command: string;
+  description?: string;
+}
+
+/**
+ * ヘルプメッセージの組み立てに関する設定
+ */
+export interface HelpFormatOptions extends LocaleOptions {
+  /** 使用方法の行でコマンド名に続ける文字列 (デフォルト: "[options]") */
+  usage?: string;
+  examples?: HelpExample[];
+  /** 折り返す幅 (省略時は端末の幅、端末でない場合は80) */
+  width?: number;
+  /** ANSIカラーで装飾する (省略時は標準出力が端末で、NO_COLOR が設定されていない場合に有効) */
+  color?: boolean;
+}
+
+const DEFAULT_HELP_WIDTH = 80;
+// 項目名の列の最大幅 (これより長い項目名は説明を次の行に表示する)
+const MAX_LABEL_WIDTH = 40;
+// 説明の列がこれより狭くなる場合は、説明を次の行に表示する
+const MIN_DESCRIPTION_WIDTH = 20;
+
+// 全角文字 (CJK・全角記号・絵文字など) かどうかを判定するヘルパー関数
+function isWideCharacter(codePoint: number): boolean {
+  return (codePoint >= 0x1100 && codePoint <= 0x115f) ||
+    (codePoint >= 0x2e80 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff00 && codePoint <= 0xff60) ||
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1faff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd);
+}
+
+/**
+ * 端末での文字列の表示幅を計算する関数
+ * 全角文字を幅2として数えます。ヘルプのほか、表や進捗バーの桁揃えに使用します。
+ * @param text 対象の文字列 (ANSIエスケープシーケンスを含まないこと)
+ * @returns 表示幅
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const character of text) {
+    width += isWideCharacter(character.codePointAt(0) ?? 0) ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * 文字列を指定した表示幅で折り返す関数
+ * 英数字の単語は途中で改行せず、全角文字は1文字ごとに改行できるものとして扱います。
+ * 閉じ括弧や句読点は行頭に来ないよう、前の行の末尾にはみ出させます。
+ * @param text 折り返す文字列
+ * @param width 1行の最大の表示幅
+ * @returns 折り返した各行
+ */
+function wrapText(text: string, width: number): string[] {
+  const tokens = text.match(/[\x21-\x7e]+|\s+|./gu) ?? [];
+  const lines: string[] = [];
+  let line = "";
+  let lineWidth = 0;
+  for (const token of tokens) {
+    if (/^\s+$/.test(token)) {
+      if (line) {
+        line += " ";
+        lineWidth += 1;
+      }
+      continue;
+    }
+    const tokenWidth = displayWidth(token);
+    // 閉じ括弧や句読点は行頭に来ないよう、前の行にはみ出させる
+    const isClosingPunctuation = /^[)\]}）」』、。，．,.:;!?]+$/.test(token);
+    if (
+      line.trim() && lineWidth + tokenWidth > width && !isClosingPunctuation
+    ) {
+      lines.push(line.trimEnd());
+      line = "";
+      lineWidth = 0;
+    }
+    line += token;
+    lineWidth += tokenWidth;
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+// ヘルプを表示する端末の幅を取得するヘルパー関数
+function getTerminalWidth(): number {
+  try {
+    if (Deno.stdout.isTerminal()) return Deno.consoleSize().columns;
+  } catch {
+    // 端末の幅を取得できない場合はデフォルトの幅を使用する
+  }
+  return DEFAULT_HELP_WIDTH;
+}
+
+/**
+ * ヘルプメッセージをANSIカラーで装飾すべきかどうかを判定する関数
+ * 標準出力が端末でない場合や、環境変数 NO_COLOR が設定されている場合は false を返します。
+ * @returns 装飾する場合は true
+ */
+export function shouldUseColor(): boolean {
+  return !Deno.noColor && Deno.stdout.isTerminal();
+}
+
+/**
+ * オブジェクトスキーマの全てのフィールドに、ヘルプのグループを設定する関数
+ * `BaseArgsSchema.merge(withHelpGroup(MySchema, "デプロイ設定"))` のように結合すると、
+ * 結合したスキーマのオプションがヘルプ上で1つのセクションにまとめられます。
+ * @param schema 対象のZodオブジェクトスキーマ
+ * @param group グループ名 (ヘルプのセクションの見出し)
+ * @param groups 言語ごとのグループ名 (例: { en: "Deploy settings" })
+ * @returns 各フィールドにグループを設定したスキーマ
+ */
+// Reason: ZodObject's generic type parameters are complex.
+// deno-lint-ignore no-explicit-any
+export function withHelpGroup<S extends z.ZodObject<any, any>>(
+  schema: S,
+  group: string,
+  groups?: Record<string, string>,
+): S {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [key, fieldSchema] of Object.entries(schema.shape)) {
+    const field = fieldSchema as z.ZodTypeAny;
+    // .meta() はメタデータを置き換えるため、既存のメタデータと結合する
+    shape[key] = field.meta({ ...field.meta(), group, groups });
+  }
+  return schema.extend(shape) as unknown as S;
+}
+
+/**
+ * 使用方法・説明・ヘルプセクションからヘルプメッセージを組み立てる関数
+ * 説明は端末の幅に合わせて折り返され、項目名が長い場合は説明を次の行に表示します。
+ * @param commandName コマンド名（サブコマンドの場合は "tool deploy" のように親を含む）
+ * @param helpSections 表示するヘルプセクション
+ * @param commandDescription コマンドの説明（オプション）
+ * @param formatOptions 使用方法・使用例・折り返す幅・色などの設定
+ * @returns 組み立てたヘルプメッセージ
+ */
+export function formatHelpMessage(
+  commandName: string,
+  helpSections: HelpSection[],
+  commandDescription?: string,
+  formatOptions: HelpFormatOptions = {},
+): string {
+  const messages = getMessages(formatOptions.locale);
+  const width = formatOptions.width ?? getTerminalWidth();
+  const color = formatOptions.color ?? shouldUseColor();
+  const paint = (style: (text: string) => string, text: string) =>
+    color ? style(text) : text;
+
+  let helpMessage = `${paint(bold, `${messages.usage}:`)} ${commandName} ${
+    formatOptions.usage ?? "[options]"
+  }\n`;
+  if (commandDescription) {
+    helpMessage += `\n${wrapText(commandDescription, width).join("\n")}\n`;
+  }
+
+  // 項目名の列の幅は、列に収まる項目名のうち最も長いものに合わせる
+  const labelWidths = helpSections.flatMap((section) =>
+    Object.keys(section.options).map(displayWidth)
+  ).filter((labelWidth) => labelWidth + 2 <= MAX_LABEL_WIDTH);
+  const labelColumnWidth = Math.min(
+    Math.max(0, ...labelWidths) + 2,
+    MAX_LABEL_WIDTH,
+  );
+  const descriptionWidth = width - 2 - labelColumnWidth;
+
+  for (const section of helpSections) {
+    helpMessage += `\n${paint(bold, `${section.title}:`)}\n`;
+    for (const [label, description] of Object.entries(section.options)) {
+      const labelDisplayWidth = displayWidth(label);
+      if (
+        labelDisplayWidth + 2 > labelColumnWidth ||
+        descriptionWidth < MIN_DESCRIPTION_WIDTH
+      ) {
+        // 項目名が長い場合や端末が狭い場合は、説明を次の行に表示する
+        helpMessage += `  ${paint(cyan, label)}\n`;
+        for (const line of wrapText(description, width - 6)) {
+          helpMessage += `      ${line}\n`;
+        }
+        continue;
+      }
+      const [firstLine = "", ...restLines] = wrapText(
+        description,
+        descriptionWidth,
+      );
+      helpMessage += `  ${paint(cyan, label)}${
+        firstLine
+          ? " ".repeat(labelColumnWidth - labelDisplayWidth) + firstLine
+          : ""
+      }\n`;
+      for (const line of restLines) {
+        helpMessage += `${" ".repeat(2 + labelColumnWidth)}${line}\n`;
+      }
+    }
+  }
+
+  if (formatOptions.examples && formatOptions.examples.length > 0) {
+    helpMessage += `\n${paint(bold, `${messages.examplesTitle}:`)}\n`;
+    for (const example of formatOptions.examples) {
+      if (example.description) {
+        for (const line of wrapText(example.description, width - 2)) {
+          helpMessage += `  ${line}\n`;
+        }
+      }
+      helpMessage += `  ${paint(dim, "$")} ${example.command}\n`;
+    }
+  }
+  return helpMessage;
+}
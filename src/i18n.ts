@@ -0,0 +1,322 @@
+import type { z } from "zod@next";
+
+/**
+ * ヘルプやエラーメッセージのカタログ
+ * registerMessages で独自の言語のカタログを追加できます。
+ */
+export interface Messages {
+  /** 使用方法の行の見出し (例: "使用方法") */
+  usage: string;
+  optionsTitle: string;
+  positionalsTitle: string;
+  commandsTitle: string;
+  examplesTitle: string;
+  /** 必須のオプションに付ける注記 */
+  required: string;
+  defaultValue: (value: string) => string;
+  envName: (name: string) => string;
+  /** 非推奨のオプションに付ける注記 */
+  deprecated: (note?: string) => string;
+  deprecatedOptionUsed: (option: string, note?: string) => string;
+  /** 自動で追加される --help の説明 */
+  helpOption: string;
+  /** 自動で追加される --completions の説明 */
+  completionsOption: string;
+  /** configFile: true の場合に追加される --config の説明 */
+  configOption: string;
+  validationFailed: string;
+  /** HelpRequestedError のメッセージ */
+  helpRequested: string;
+  /** CompletionsRequestedError のメッセージ */
+  completionsRequested: string;
+  seeHelp: (commandName: string) => string;
+  didYouMean: (suggestion: string) => string;
+  unknownOption: (option: string) => string;
+  conflictingValues: (option: string, values: string[]) => string;
+  tooManyPositionals: (values: string[]) => string;
+  missingCommand: (commands: string[]) => string;
+  unknownCommand: (command: string) => string;
+  invalidShell: (shell: string, shells: readonly string[]) => string;
+  /** 対話的な入力で入力値が検証に失敗した場合のメッセージ */
+  invalidInput: (reason: string) => string;
+  selectNumber: (count: number) => string;
+  invalidSelection: (input: string) => string;
+  /** confirmAction で表示する実行内容の見出し */
+  actionSummaryTitle: string;
+  /** confirmAction で表示する実行内容の項目名 */
+  actionSummaryLabels: {
+    action: string;
+    network: string;
+    chainId: string;
+    signer: string;
+    target: string;
+    value: string;
+    estimatedGas: string;
+  };
+  /** ネットワークの種類の注記 (メインネット・テストネット) */
+  networkKind: (mainnet: boolean) => string;
+  /** ガス量の推定に失敗した場合に、推定ガスの項目に表示するメッセージ */
+  estimateGasFailed: (error: string) => string;
+  confirmAction: (action: string) => string;
+  /** printError などで text 形式で出力するエラーメッセージ */
+  commandFailed: (message: string) => string;
+  /** Zodの検証エラーのメッセージ (undefined を返した場合はZodの既定のメッセージを使用) */
+  zodError?: z.core.$ZodErrorMap;
+}
+
+/**
+ * ヘルプやエラーメッセージの言語に関する設定
+ */
+export interface LocaleOptions {
+  /**
+   * メッセージの言語 (例: "ja", "en")
+   * 指定しない場合は環境変数 LC_ALL, LC_MESSAGES, LANG から判定し、判定できない場合は "ja" を使用します。
+   */
+  locale?: string;
+}
+
+// 日本語のZodの検証エラーのメッセージ
+const jaZodError: z.core.$ZodErrorMap = (issue) => {
+  switch (issue.code) {
+    case "invalid_type":
+      if (issue.input === undefined) {
+        return `値が指定されていません (${issue.expected} が必要です)`;
+      }
+      return `入力値が不正です: ${issue.expected} が必要です`;
+    case "invalid_value":
+      if (issue.values.length === 1) {
+        return `入力値が不正です: ${
+          String(issue.values[0])
+        } を指定してください`;
+      }
+      return `入力値が不正です: ${
+        issue.values.map(String).join("|")
+      } のいずれかを指定してください`;
+    case "too_small": {
+      const minimum = String(issue.minimum);
+      if (issue.origin === "string") {
+        return `${minimum}文字以上である必要があります`;
+      }
+      if (issue.origin === "array" || issue.origin === "set") {
+        return `${minimum}個以上の要素が必要です`;
+      }
+      return issue.inclusive
+        ? `${minimum}以上である必要があります`
+        : `${minimum}より大きい必要があります`;
+    }
+    case "too_big": {
+      const maximum = String(issue.maximum);
+      if (issue.origin === "string") {
+        return `${maximum}文字以下である必要があります`;
+      }
+      if (issue.origin === "array" || issue.origin === "set") {
+        return `要素は${maximum}個以下である必要があります`;
+      }
+      return issue.inclusive
+        ? `${maximum}以下である必要があります`
+        : `${maximum}未満である必要があります`;
+    }
+    case "invalid_format": {
+      // deno-lint-ignore no-explicit-any
+      const formatIssue = issue as any;
+      if (formatIssue.format === "starts_with") {
+        return `"${formatIssue.prefix}" で始まる必要があります`;
+      }
+      if (formatIssue.format === "ends_with") {
+        return `"${formatIssue.suffix}" で終わる必要があります`;
+      }
+      if (formatIssue.format === "includes") {
+        return `"${formatIssue.includes}" を含む必要があります`;
+      }
+      if (formatIssue.format === "regex") {
+        return `パターン ${formatIssue.pattern} に一致する必要があります`;
+      }
+      return `${formatIssue.format} の形式が不正です`;
+    }
+    case "not_multiple_of":
+      return `${String(issue.divisor)} の倍数である必要があります`;
+    case "unrecognized_keys":
+      return `不明なキーです: ${issue.keys.join(", ")}`;
+    default:
+      return "入力値が不正です";
+  }
+};
+
+// 英語のZodの検証エラーのメッセージ (値が指定されていない場合以外はZodの既定のメッセージを使用)
+const enZodError: z.core.$ZodErrorMap = (issue) => {
+  if (issue.code === "invalid_type" && issue.input === undefined) {
+    return `Missing value (expected ${issue.expected})`;
+  }
+  return undefined;
+};
+
+/**
+ * 日本語のメッセージカタログ (デフォルト)
+ */
+export const jaMessages: Messages = {
+  usage: "使用方法",
+  optionsTitle: "オプション",
+  positionalsTitle: "引数",
+  commandsTitle: "コマンド",
+  examplesTitle: "例",
+  required: "必須",
+  defaultValue: (value) => `デフォルト: ${value}`,
+  envName: (name) => `環境変数: ${name}`,
+  deprecated: (note) => note ? `非推奨: ${note}` : "非推奨",
+  deprecatedOptionUsed: (option, note) =>
+    `${option} は非推奨です。${note ?? ""}`.trim(),
+  helpOption: "ヘルプを表示",
+  completionsOption: "シェル補完スクリプトを出力",
+  configOption: "設定ファイルのパス (JSON/JSONC/TOML/.env)",
+  validationFailed: "引数の検証に失敗しました。",
+  helpRequested: "ヘルプの表示が要求されました。",
+  completionsRequested: "補完スクリプトの出力が要求されました。",
+  seeHelp: (commandName) => `詳細は ${commandName} --help を確認してください。`,
+  didYouMean: (suggestion) => `(もしかして: ${suggestion})`,
+  unknownOption: (option) => `不明なオプションです: ${option}`,
+  conflictingValues: (option, values) =>
+    `${option} に異なる値が複数指定されています: ${values.join(", ")}`,
+  tooManyPositionals: (values) =>
+    `余分な位置引数が指定されています: ${values.join(" ")}`,
+  missingCommand: (commands) =>
+    `サブコマンドを指定してください: ${commands.join(", ")}`,
+  unknownCommand: (command) => `不明なコマンドです: ${command}`,
+  invalidShell: (shell, shells) =>
+    `対応していないシェルです: ${shell} (${
+      shells.join(", ")
+    } のいずれかを指定してください)`,
+  invalidInput: (reason) => `入力値が不正です: ${reason}`,
+  selectNumber: (count) => `番号を選択してください (1-${count}):`,
+  invalidSelection: (input) => `不正な選択です: ${input}`,
+  actionSummaryTitle: "実行内容の確認",
+  actionSummaryLabels: {
+    action: "操作",
+    network: "ネットワーク",
+    chainId: "チェーンID",
+    signer: "署名者",
+    target: "送信先",
+    value: "送金額",
+    estimatedGas: "推定ガス",
+  },
+  networkKind: (mainnet) => mainnet ? "メインネット" : "テストネット",
+  estimateGasFailed: (error) =>
+    `推定に失敗しました (実行すると失敗する可能性があります): ${error}`,
+  confirmAction: (action) => `${action} を実行しますか?`,
+  commandFailed: (message) => `エラー: ${message}`,
+  zodError: jaZodError,
+};
+
+/**
+ * 英語のメッセージカタログ
+ */
+export const enMessages: Messages = {
+  usage: "Usage",
+  optionsTitle: "Options",
+  positionalsTitle: "Arguments",
+  commandsTitle: "Commands",
+  examplesTitle: "Examples",
+  required: "required",
+  defaultValue: (value) => `default: ${value}`,
+  envName: (name) => `env: ${name}`,
+  deprecated: (note) => note ? `deprecated: ${note}` : "deprecated",
+  deprecatedOptionUsed: (option, note) =>
+    `${option} is deprecated. ${note ?? ""}`.trim(),
+  helpOption: "Show help",
+  completionsOption: "Print a shell completion script",
+  configOption: "Path to a config file (JSON/JSONC/TOML/.env)",
+  validationFailed: "Invalid arguments.",
+  helpRequested: "Help was requested.",
+  completionsRequested: "A shell completion script was requested.",
+  seeHelp: (commandName) => `Run ${commandName} --help for details.`,
+  didYouMean: (suggestion) => `(did you mean ${suggestion}?)`,
+  unknownOption: (option) => `Unknown option: ${option}`,
+  conflictingValues: (option, values) =>
+    `Conflicting values given for ${option}: ${values.join(", ")}`,
+  tooManyPositionals: (values) =>
+    `Unexpected positional arguments: ${values.join(" ")}`,
+  missingCommand: (commands) => `Specify a subcommand: ${commands.join(", ")}`,
+  unknownCommand: (command) => `Unknown command: ${command}`,
+  invalidShell: (shell, shells) =>
+    `Unsupported shell: ${shell} (expected one of ${shells.join(", ")})`,
+  invalidInput: (reason) => `Invalid input: ${reason}`,
+  selectNumber: (count) => `Select a number (1-${count}):`,
+  invalidSelection: (input) => `Invalid selection: ${input}`,
+  actionSummaryTitle: "Review the action",
+  actionSummaryLabels: {
+    action: "Action",
+    network: "Network",
+    chainId: "chain ID",
+    signer: "Signer",
+    target: "Target",
+    value: "Value",
+    estimatedGas: "Estimated gas",
+  },
+  networkKind: (mainnet) => mainnet ? "mainnet" : "testnet",
+  estimateGasFailed: (error) =>
+    `Estimation failed (the transaction is likely to fail): ${error}`,
+  confirmAction: (action) => `Run ${action}?`,
+  commandFailed: (message) => `Error: ${message}`,
+  zodError: enZodError,
+};
+
+const DEFAULT_LOCALE = "ja";
+
+// 言語ごとのメッセージカタログ
+const messageCatalogs = new Map<string, Messages>([
+  ["ja", jaMessages],
+  ["en", enMessages],
+]);
+
+/**
+ * メッセージカタログを登録する関数
+ * 既に登録されている言語を指定した場合は上書きします。
+ * @param locale 言語 (例: "ko")
+ * @param messages メッセージカタログ
+ */
+export function registerMessages(locale: string, messages: Messages): void {
+  messageCatalogs.set(locale, messages);
+}
+
+/**
+ * 環境変数 LC_ALL, LC_MESSAGES, LANG から言語の設定を取得する関数
+ * 環境変数の読み取りが許可されていない場合や "C"/"POSIX" の場合は undefined を返します。
+ * @returns 言語の設定 (例: "en_US.UTF-8")
+ */
+export function detectLocale(): string | undefined {
+  for (const name of ["LC_ALL", "LC_MESSAGES", "LANG"]) {
+    // 権限の確認ダイアログを表示しないよう、許可されている場合のみ読み取る
+    const { state } = Deno.permissions.querySync({
+      name: "env",
+      variable: name,
+    });
+    if (state !== "granted") continue;
+    const value = Deno.env.get(name);
+    if (value && value !== "C" && value !== "POSIX") return value;
+  }
+  return undefined;
+}
+
+/**
+ * 指定された言語、または環境変数から、使用するメッセージカタログの言語を決定する関数
+ * "en_US.UTF-8" のような指定は "en" のカタログに対応付けられます。
+ * @param locale 言語の指定 (省略時は環境変数から判定)
+ * @returns 登録済みのカタログの言語 (該当するカタログがない場合は "ja")
+ */
+export function resolveLocale(locale?: string): string {
+  const requested = locale ?? detectLocale();
+  if (requested) {
+    if (messageCatalogs.has(requested)) return requested;
+    const language = requested.split(/[-_.]/)[0].toLowerCase();
+    if (messageCatalogs.has(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * 言語に対応するメッセージカタログを取得する関数
+ * @param locale 言語の指定 (省略時は環境変数から判定)
+ * @returns メッセージカタログ
+ */
+export function getMessages(locale?: string): Messages {
+  return messageCatalogs.get(resolveLocale(locale)) ?? jaMessages;
+}
@@ -0,0 +1,178 @@
+import type { FormattedValues, LogRecord } from "@logtape/logtape";
+import { getAnsiColorFormatter, getTextFormatter } from "@logtape/logtape";
+
+/**
+ * ログの出力形式
+ * - "pretty": 時刻・レベル・メッセージをANSIカラーで装飾した形式
+ * - "plain": "pretty" から装飾を除いた形式
+ * - "json": LogEntry を1行ずつJSONで出力する形式 (JSON Lines)
+ * - "logfmt": `key=value` を空白区切りで並べる形式
+ */
+export type LogFormat = "pretty" | "plain" | "json" | "logfmt";
+
+/**
+ * 出力形式の一覧
+ */
+export const logFormats: readonly LogFormat[] = [
+  "pretty",
+  "plain",
+  "json",
+  "logfmt",
+];
+
+/**
+ * "json" 形式で出力するログの1行分の内容
+ * LogTapeのログレコードを、ログ収集基盤で扱いやすい安定した形に正規化したものです。
+ */
+export interface LogEntry {
+  /** ISO 8601形式の時刻 (UTC) */
+  timestamp: string;
+  level: "debug" | "info" | "warn" | "error" | "fatal";
+  /** "." で連結したカテゴリ (例: "my_script.rpc") */
+  category: string;
+  /** プレースホルダーに値を埋め込んだメッセージ */
+  message: string;
+  /** 構造化データ (JSONで表現できない値は文字列などに変換される) */
+  properties: Record<string, unknown>;
+}
+
+// LogTapeのログレベルを LogEntry のログレベルに変換するヘルパー関数
+function toEntryLevel(level: LogRecord["level"]): LogEntry["level"] {
+  return level === "warning" ? "warn" : level;
+}
+
+// JSONで表現できない値 (bigint, Error, 循環参照) を変換しながらJSONに変換するヘルパー関数
+function toJson(value: unknown): string {
+  // 現在の値に至るまでの祖先 (元の値と、Errorを変換した後の値)
+  const ancestors: { original: object; converted: object }[] = [];
+  return JSON.stringify(value, function (_key, propertyValue: unknown) {
+    if (typeof propertyValue === "bigint") return propertyValue.toString();
+    if (typeof propertyValue !== "object" || propertyValue === null) {
+      return propertyValue;
+    }
+    // this は propertyValue を持つオブジェクト。祖先の一覧をその位置まで戻してから循環参照を判定する
+    while (
+      ancestors.length > 0 && ancestors[ancestors.length - 1].converted !== this
+    ) {
+      ancestors.pop();
+    }
+    if (ancestors.some(({ original }) => original === propertyValue)) {
+      return "[Circular]";
+    }
+    const converted = propertyValue instanceof Error
+      ? {
+        ...propertyValue,
+        name: propertyValue.name,
+        message: propertyValue.message,
+        stack: propertyValue.stack,
+      }
+      : propertyValue;
+    ancestors.push({ original: propertyValue, converted });
+    return converted;
+  }) ?? "null";
+}
+
+// メッセージに埋め込む値を文字列に変換するヘルパー関数
+function stringifyMessageValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.message;
+  if (value === undefined || typeof value === "bigint") return String(value);
+  return toJson(value);
+}
+
+/**
+ * ログレコードのメッセージのプレースホルダーに値を埋め込んだ文字列を返す関数
+ * 文字列の値はそのまま、その他の値はJSONに変換して埋め込みます。
+ * @param record ログレコード
+ * @returns メッセージ
+ */
+export function renderLogMessage(record: LogRecord): string {
+  return record.message
+    .map((part, index) =>
+      index % 2 === 0 ? String(part) : stringifyMessageValue(part)
+    )
+    .join("");
+}
+
+/**
+ * ログレコードを "json" 形式の LogEntry に正規化する関数
+ * @param record ログレコード
+ * @returns 正規化したログ
+ */
+export function toLogEntry(record: LogRecord): LogEntry {
+  return {
+    timestamp: new Date(record.timestamp).toISOString(),
+    level: toEntryLevel(record.level),
+    category: record.category.join("."),
+    message: renderLogMessage(record),
+    properties: JSON.parse(toJson(record.properties)),
+  };
+}
+
+// logfmt の値を、必要に応じて引用符で囲んで返すヘルパー関数
+function toLogfmtValue(value: unknown): string {
+  const text = typeof value === "string" ? value : toJson(value);
+  if (text !== "" && !/[\s"=\\]/.test(text)) return text;
+  return `"${
+    text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r").replace(/\t/g, "\\t")
+  }"`;
+}
+
+// "pretty" と "plain" で共通の並び (カテゴリを表示せず、時刻・レベル・メッセージのみ)
+const textFormatterOptions = {
+  timestamp: "time",
+  level: "ABBR",
+  format: (values: FormattedValues) =>
+    `${values.timestamp} ${values.level}: ${values.message}`,
+} as const;
+
+// ANSIカラーフォーマッタの作成（カテゴリ非表示）
+const prettyFormatter = getAnsiColorFormatter({
+  ...textFormatterOptions,
+  timestampStyle: "dim",
+  timestampColor: "cyan",
+  levelStyle: "bold",
+  levelColors: {
+    debug: "blue",
+    info: "green",
+    warning: "yellow",
+    error: "red",
+    fatal: "magenta",
+  },
+});
+
+const plainFormatter = getTextFormatter(textFormatterOptions);
+
+/**
+ * 出力形式に対応するフォーマッタを取得する関数
+ * @param format 出力形式
+ * @returns ログレコードを末尾に改行を含む1行の文字列に変換する関数
+ */
+export function getLogFormatter(
+  format: LogFormat,
+): (record: LogRecord) => string {
+  switch (format) {
+    case "pretty":
+      return prettyFormatter;
+    case "plain":
+      return plainFormatter;
+    case "json":
+      return (record) => `${toJson(toLogEntry(record))}\n`;
+    case "logfmt":
+      return (record) => {
+        const entry = toLogEntry(record);
+        const fields: [string, unknown][] = [
+          ["time", entry.timestamp],
+          ["level", entry.level],
+          ["category", entry.category],
+          ["msg", entry.message],
+          ...Object.entries(entry.properties),
+        ];
+        return `${
+          fields.map(([key, value]) => `${key}=${toLogfmtValue(value)}`)
+            .join(" ")
+        }\n`;
+      };
+  }
+}
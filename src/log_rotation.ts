@@ -0,0 +1,281 @@
+import { basename, join } from "jsr:@std/path@^1.0.8";
+import type { LogRecord, Sink } from "@logtape/logtape";
+
+/**
+ * ログファイルを新しいファイルに切り替える条件
+ * どちらも指定しない場合は、実行ごとに1つのファイルに出力します。
+ */
+export interface LogRotationOptions {
+  /** ファイルサイズがこのバイト数を超える場合に新しいファイルに切り替える */
+  maxBytes?: number;
+  /** 日付 (ローカル時刻) が変わった場合に新しいファイルに切り替える */
+  daily?: boolean;
+}
+
+/**
+ * 古いログファイルの保持に関する設定
+ * 出力中のファイル (並行して実行中の同じスクリプトのファイルを含む) は、設定に関わらず削除・圧縮されません。
+ */
+export interface LogRetentionOptions {
+  /** 保持するログファイルの数 (出力中のファイルを含む) */
+  maxFiles?: number;
+  /** 最終更新からこの日数を過ぎたログファイルを削除する */
+  maxDays?: number;
+  /** ローテーションや実行の終了で出力を終えたログファイルをgzipで圧縮する (拡張子は .log.gz) */
+  compress?: boolean;
+}
+
+/**
+ * createRotatingFileSink関数に渡すオプションを定義するインターフェース
+ */
+export interface RotatingFileSinkOptions {
+  /** ログレコードを1行の文字列に変換する関数 (末尾に改行を含める) */
+  formatter: (record: LogRecord) => string;
+  rotation?: LogRotationOptions;
+  retention?: LogRetentionOptions;
+}
+
+/**
+ * 出力中のログファイルを指すシンボリックリンクのファイル名
+ * シンボリックリンクを作成できない環境では、代わりに LATEST_LOG_POINTER_FILE_NAME
+ * のファイルに出力中のファイル名を書き込みます。
+ */
+export const LATEST_LOG_FILE_NAME = "latest.log";
+export const LATEST_LOG_POINTER_FILE_NAME = "latest.txt";
+
+const encoder = new TextEncoder();
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 正規表現の特殊文字をエスケープするヘルパー関数
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ローカル時刻の日付を "YYYY-MM-DD" の形式で取得するヘルパー関数
+function toLocalDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+// 新しいログファイルを作成するヘルパー関数 (同じ時刻のファイルがある場合は連番を付ける)
+// 出力中であることを他のプロセスの applyLogRetention に示すため、閉じるまで共有ロックを保持する
+function openNewLogFile(
+  logDir: string,
+  scriptName: string,
+): { file: Deno.FsFile; path: string } {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  for (let sequence = 0;; sequence++) {
+    const path = join(
+      logDir,
+      sequence === 0
+        ? `${scriptName}-${timestamp}.log`
+        : `${scriptName}-${timestamp}-${sequence}.log`,
+    );
+    try {
+      const file = Deno.openSync(path, { write: true, createNew: true });
+      file.lockSync(false);
+      return { file, path };
+    } catch (e) {
+      if (!(e instanceof Deno.errors.AlreadyExists)) throw e;
+    }
+  }
+}
+
+// 出力中のログファイルを指すシンボリックリンクを更新するヘルパー関数
+function updateLatestPointer(logDir: string, fileName: string): void {
+  const latestPath = join(logDir, LATEST_LOG_FILE_NAME);
+  const temporaryPath = `${latestPath}.${Deno.pid}.tmp`;
+  try {
+    // 置き換えの途中で latest.log が存在しない瞬間ができないよう、一時的なリンクを作成してから置き換える
+    Deno.symlinkSync(fileName, temporaryPath);
+    Deno.renameSync(temporaryPath, latestPath);
+  } catch {
+    // シンボリックリンクを作成できない環境 (権限のないWindowsなど) では、ファイル名を書き込む
+    try {
+      Deno.removeSync(temporaryPath);
+    } catch {
+      // 一時的なリンクが作成されていない場合は何もしない
+    }
+    Deno.writeTextFileSync(
+      join(logDir, LATEST_LOG_POINTER_FILE_NAME),
+      `${fileName}\n`,
+    );
+  }
+}
+
+// いずれかのプロセスが出力中のログファイルかを判定するヘルパー関数
+// 出力中のファイルは共有ロックが保持されているため、排他ロックを取得できない
+function isLogFileInUse(path: string): boolean {
+  let file: Deno.FsFile;
+  try {
+    file = Deno.openSync(path, { read: true });
+  } catch {
+    // 開けないファイルは、判定できないため出力中とみなして処理しない
+    return true;
+  }
+  try {
+    return !file.tryLockSync(true);
+  } finally {
+    file.close();
+  }
+}
+
+// ファイルをgzipで圧縮し、元のファイルを削除するヘルパー関数
+async function compressLogFile(
+  path: string,
+  modifiedAt: number,
+): Promise<void> {
+  const source = await Deno.open(path, { read: true });
+  const destination = await Deno.open(`${path}.gz`, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+  await source.readable
+    .pipeThrough(new CompressionStream("gzip"))
+    .pipeTo(destination.writable);
+  // 保持日数の判定に使用するため、圧縮後のファイルにも元の更新日時を引き継ぐ
+  await Deno.utime(`${path}.gz`, new Date(), new Date(modifiedAt));
+  await Deno.remove(path);
+}
+
+/**
+ * ログディレクトリ内の古いログファイルを、保持の設定に従って削除・圧縮する関数
+ * 対象は `{scriptName}-*.log` と `{scriptName}-*.log.gz` のファイルで、更新日時の新しい順に数えます。
+ * いずれかのプロセスが出力中のファイル (createRotatingFileSink がロックを保持しているファイル) は、
+ * 並行して実行中の同じスクリプトのログを失わないよう、削除・圧縮しません。
+ * 個々のファイルの処理に失敗した場合は、エラーを出力して残りのファイルの処理を続けます。
+ * @param logDir ログファイルのあるディレクトリ
+ * @param scriptName スクリプト名 (ログファイル名の接頭辞)
+ * @param retention 保持の設定
+ * @param currentPath 出力中のログファイルのパス (削除・圧縮の対象外)
+ */
+export async function applyLogRetention(
+  logDir: string,
+  scriptName: string,
+  retention: LogRetentionOptions,
+  currentPath?: string,
+): Promise<void> {
+  const { maxFiles, maxDays, compress } = retention;
+  if (maxFiles === undefined && maxDays === undefined && !compress) return;
+
+  const pattern = new RegExp(`^${escapeRegExp(scriptName)}-.+\\.log(\\.gz)?$`);
+  const logFiles: { path: string; name: string; modifiedAt: number }[] = [];
+  for await (const entry of Deno.readDir(logDir)) {
+    if (!entry.isFile || !pattern.test(entry.name)) continue;
+    const path = join(logDir, entry.name);
+    const { mtime } = await Deno.stat(path);
+    logFiles.push({
+      path,
+      name: entry.name,
+      modifiedAt: mtime?.getTime() ?? 0,
+    });
+  }
+  // 更新日時の新しい順 (同じ場合はファイル名の新しい順) に並べる
+  logFiles.sort((a, b) =>
+    b.modifiedAt - a.modifiedAt || b.name.localeCompare(a.name)
+  );
+
+  const now = Date.now();
+  for (const [index, logFile] of logFiles.entries()) {
+    if (logFile.path === currentPath) continue;
+    if (logFile.name.endsWith(".log") && isLogFileInUse(logFile.path)) {
+      continue;
+    }
+    const isExpired = (maxFiles !== undefined && index >= maxFiles) ||
+      (maxDays !== undefined &&
+        now - logFile.modifiedAt > maxDays * MILLISECONDS_PER_DAY);
+    try {
+      if (isExpired) {
+        await Deno.remove(logFile.path);
+      } else if (compress && logFile.name.endsWith(".log")) {
+        await compressLogFile(logFile.path, logFile.modifiedAt);
+      }
+    } catch (e) {
+      console.error(`Failed to clean up log file: ${logFile.path}`, e);
+    }
+  }
+}
+
+/**
+ * ログファイルのローテーションと古いファイルの整理を行うSinkを作成する関数
+ * `{logDir}/{scriptName}-{タイムスタンプ}.log` に出力し、ローテーションの条件を満たした時点で
+ * 新しいファイルに切り替えます。出力中のファイルは `{logDir}/latest.log` から参照できます。
+ * 作成時とローテーション時に、保持の設定に従って古いファイルを整理します。
+ * @param logDir ログファイルを作成するディレクトリ (作成済みであること)
+ * @param scriptName スクリプト名 (ログファイル名の接頭辞)
+ * @param options フォーマッタ・ローテーション・保持の設定
+ * @returns ログファイルに出力するSink (非同期に破棄するとファイルを閉じ、整理の完了を待つ)
+ */
+export async function createRotatingFileSink(
+  logDir: string,
+  scriptName: string,
+  options: RotatingFileSinkOptions,
+): Promise<Sink & Disposable & AsyncDisposable> {
+  const { formatter, rotation = {}, retention = {} } = options;
+
+  let current = openNewLogFile(logDir, scriptName);
+  let currentSize = 0;
+  let currentDate = toLocalDateKey(Date.now());
+  updateLatestPointer(logDir, basename(current.path));
+  await applyLogRetention(logDir, scriptName, retention, current.path);
+
+  // ローテーション時の整理は出力を止めないよう、バックグラウンドで順に実行する
+  let pendingCleanup = Promise.resolve();
+
+  const needsRotation = (byteLength: number, timestamp: number): boolean => {
+    if (currentSize === 0) return false;
+    if (
+      rotation.maxBytes !== undefined &&
+      currentSize + byteLength > rotation.maxBytes
+    ) {
+      return true;
+    }
+    return rotation.daily === true &&
+      toLocalDateKey(timestamp) !== currentDate;
+  };
+
+  const sink: Sink = (record: LogRecord) => {
+    const bytes = encoder.encode(formatter(record));
+    if (needsRotation(bytes.length, record.timestamp)) {
+      current.file.close();
+      current = openNewLogFile(logDir, scriptName);
+      currentSize = 0;
+      currentDate = toLocalDateKey(record.timestamp);
+      updateLatestPointer(logDir, basename(current.path));
+      // 整理の実行時点で出力中のファイルを対象外にする (実行を待つ間に再びローテーションする場合がある)
+      pendingCleanup = pendingCleanup
+        .then(() =>
+          applyLogRetention(logDir, scriptName, retention, current.path)
+        )
+        .catch((e) => {
+          console.error(`Failed to clean up log directory: ${logDir}`, e);
+        });
+    }
+    let written = 0;
+    while (written < bytes.length) {
+      written += current.file.writeSync(bytes.subarray(written));
+    }
+    currentSize += bytes.length;
+  };
+
+  let closed = false;
+  const closeFile = () => {
+    if (closed) return;
+    closed = true;
+    current.file.close();
+  };
+
+  return Object.assign(sink, {
+    // 終了直前など非同期処理を待てない場合は、ファイルを閉じるだけで整理の完了は待たない
+    [Symbol.dispose]: closeFile,
+    [Symbol.asyncDispose]: async () => {
+      closeFile();
+      await pendingCleanup;
+    },
+  });
+}
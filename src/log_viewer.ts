@@ -0,0 +1,687 @@
+import { basename, join } from "jsr:@std/path@^1.0.8";
+import type { LogRecord } from "@logtape/logtape";
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod@next";
+import { processCommands } from "./commands.ts";
+import {
+  getLogFormatter,
+  type LogEntry,
+  type LogFormat,
+  logFormats,
+} from "./log_format.ts";
+import {
+  LATEST_LOG_FILE_NAME,
+  LATEST_LOG_POINTER_FILE_NAME,
+} from "./log_rotation.ts";
+import { writeConsole } from "./logger.ts";
+
+/**
+ * ログファイル1つ分の内容
+ */
+export interface LogFileContents {
+  path: string;
+  /** ファイル内のログ (JSONとして解析できない行は含まない) */
+  entries: LogEntry[];
+}
+
+/**
+ * ログを絞り込む条件
+ * 指定した条件を全て満たすログが対象になります。
+ */
+export interface LogEntryFilter {
+  /** このレベル以上のログのみを対象にする */
+  level?: LogEntry["level"];
+  /** この時刻以降のログのみを対象にする */
+  since?: Date;
+  /** この時刻より前のログのみを対象にする */
+  until?: Date;
+  /** カテゴリ ("my_script.rpc" を指定すると "my_script.rpc.retry" も対象になる) */
+  category?: string;
+  /** 実行ID (前方一致) */
+  runId?: string;
+  /** プロパティの値 (キーは "." 区切りでネストしたプロパティを指定できる) */
+  properties?: Record<string, string>;
+}
+
+/**
+ * 1回の実行のログの概要
+ */
+export interface LogRunSummary {
+  /** 実行ID (実行IDのない古いログではファイル名) */
+  runId: string;
+  /** 実行の開始時刻 (実行のコンテキストがない場合は最初のログの時刻) */
+  startedAt: string;
+  /** 最後のログの時刻 */
+  endedAt: string;
+  host?: string;
+  pid?: number;
+  gitCommit?: string;
+  /** 終了コード (実行の概要が記録されていない場合は undefined) */
+  exitCode?: number;
+  durationMs?: number;
+  /** レベルごとのログの件数 */
+  counts: Record<LogEntry["level"], number>;
+  /** ログが含まれるファイル名 */
+  files: string[];
+}
+
+/**
+ * followLogEntries関数に渡すオプションを定義するインターフェース
+ */
+export interface FollowLogOptions {
+  /** 中断すると追跡を終了する */
+  signal?: AbortSignal;
+  /** ファイルの追記を確認する間隔 (ミリ秒、デフォルト: 500) */
+  intervalMs?: number;
+}
+
+const logLevelOrder: readonly LogEntry["level"][] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "fatal",
+];
+
+// 正規表現の特殊文字をエスケープするヘルパー関数
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// 1行のJSONを LogEntry として解析するヘルパー関数 (形式が異なる行は undefined)
+function parseLogLine(line: string): LogEntry | undefined {
+  if (line.trim() === "") return undefined;
+  try {
+    const value = JSON.parse(line);
+    if (
+      typeof value !== "object" || value === null ||
+      typeof value.timestamp !== "string" ||
+      !logLevelOrder.includes(value.level) ||
+      typeof value.message !== "string"
+    ) {
+      return undefined;
+    }
+    return {
+      timestamp: value.timestamp,
+      level: value.level,
+      category: typeof value.category === "string" ? value.category : "",
+      message: value.message,
+      properties: typeof value.properties === "object" &&
+          value.properties !== null
+        ? value.properties
+        : {},
+    };
+  } catch {
+    // "json" 以外の形式で出力されたログファイルの行
+    return undefined;
+  }
+}
+
+// 複数行のテキストを LogEntry の一覧に変換するヘルパー関数
+function parseLogLines(text: string): LogEntry[] {
+  return text.split("\n").flatMap((line) => parseLogLine(line) ?? []);
+}
+
+// ログファイルを読み込むヘルパー関数 (.gz のファイルは展開する)
+async function readLogFileText(path: string): Promise<string> {
+  if (!path.endsWith(".gz")) return await Deno.readTextFile(path);
+  const file = await Deno.open(path, { read: true });
+  return await new Response(
+    file.readable.pipeThrough(new DecompressionStream("gzip")),
+  ).text();
+}
+
+/**
+ * スクリプトのログファイルの一覧を、古い順に取得する関数
+ * 対象は `{scriptName}-*.log` と、圧縮された `{scriptName}-*.log.gz` のファイルです。
+ * @param logDir ログファイルのあるディレクトリ (`{createLogger の logDir}/{scriptName}`)
+ * @param scriptName スクリプト名 (ログファイル名の接頭辞)
+ * @returns ログファイルのパスの一覧を含むResult
+ */
+export async function listLogFiles(
+  logDir: string,
+  scriptName: string,
+): Promise<Result<string[], Error>> {
+  const pattern = new RegExp(`^${escapeRegExp(scriptName)}-.+\\.log(\\.gz)?$`);
+  try {
+    const names: string[] = [];
+    for await (const entry of Deno.readDir(logDir)) {
+      if (entry.isFile && pattern.test(entry.name)) names.push(entry.name);
+    }
+    // ファイル名は作成時刻を含むため、圧縮の有無を除いた名前の順が作成順になる
+    names.sort((a, b) =>
+      a.replace(/\.gz$/, "").localeCompare(b.replace(/\.gz$/, ""))
+    );
+    return ok(names.map((name) => join(logDir, name)));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return err(
+      new Error(`Failed to list log files in ${logDir}: ${errorMessage}`),
+    );
+  }
+}
+
+/**
+ * スクリプトの全てのログファイルを、古い順に読み込む関数
+ * "json" 形式 (LogEntry) で出力されたログのみを解析し、その他の形式の行は無視します。
+ * @param logDir ログファイルのあるディレクトリ (`{createLogger の logDir}/{scriptName}`)
+ * @param scriptName スクリプト名 (ログファイル名の接頭辞)
+ * @returns ファイルごとのログを含むResult
+ */
+export async function readLogFiles(
+  logDir: string,
+  scriptName: string,
+): Promise<Result<LogFileContents[], Error>> {
+  const listResult = await listLogFiles(logDir, scriptName);
+  if (listResult.isErr()) return err(listResult.error);
+
+  const files: LogFileContents[] = [];
+  for (const path of listResult.value) {
+    try {
+      files.push({ path, entries: parseLogLines(await readLogFileText(path)) });
+    } catch (error: unknown) {
+      // 読み込みの間に圧縮・削除されたファイルは対象外にする
+      if (error instanceof Deno.errors.NotFound) continue;
+      const errorMessage = error instanceof Error
+        ? error.message
+        : String(error);
+      return err(
+        new Error(`Failed to read log file ${path}: ${errorMessage}`),
+      );
+    }
+  }
+  return ok(files);
+}
+
+// "." 区切りのキーでネストしたプロパティの値を取得するヘルパー関数
+function getPropertyValue(
+  properties: Record<string, unknown>,
+  key: string,
+): unknown {
+  if (key in properties) return properties[key];
+  let value: unknown = properties;
+  for (const part of key.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * ログが絞り込みの条件を満たすかどうかを判定する関数
+ * プロパティの値は、文字列に変換した値 (オブジェクトはJSON) と比較します。
+ * @param entry 対象のログ
+ * @param filter 絞り込みの条件
+ * @returns 条件を満たす場合は true
+ */
+export function matchesLogEntry(
+  entry: LogEntry,
+  filter: LogEntryFilter,
+): boolean {
+  if (
+    filter.level !== undefined &&
+    logLevelOrder.indexOf(entry.level) < logLevelOrder.indexOf(filter.level)
+  ) {
+    return false;
+  }
+  const timestamp = Date.parse(entry.timestamp);
+  if (filter.since !== undefined && timestamp < filter.since.getTime()) {
+    return false;
+  }
+  if (filter.until !== undefined && timestamp >= filter.until.getTime()) {
+    return false;
+  }
+  if (
+    filter.category !== undefined &&
+    entry.category !== filter.category &&
+    !entry.category.startsWith(`${filter.category}.`)
+  ) {
+    return false;
+  }
+  if (filter.runId !== undefined) {
+    const runId = entry.properties.runId;
+    if (typeof runId !== "string" || !runId.startsWith(filter.runId)) {
+      return false;
+    }
+  }
+  for (const [key, expected] of Object.entries(filter.properties ?? {})) {
+    const value = getPropertyValue(entry.properties, key);
+    if (value === undefined) return false;
+    const text = typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : String(value);
+    if (text !== expected) return false;
+  }
+  return true;
+}
+
+/**
+ * ログを実行ごとにまとめ、実行の概要の一覧を返す関数
+ * 実行IDのないログ (実行IDが記録される前のログ) は、ファイルごとに1回の実行として扱います。
+ * @param files readLogFiles で読み込んだログファイルの内容
+ * @returns 開始時刻の古い順に並べた実行の概要
+ */
+export function summarizeLogRuns(files: LogFileContents[]): LogRunSummary[] {
+  const runs = new Map<string, LogRunSummary>();
+  for (const { path, entries } of files) {
+    const fileName = basename(path);
+    for (const entry of entries) {
+      const properties = entry.properties;
+      const runId = typeof properties.runId === "string"
+        ? properties.runId
+        : fileName;
+      let run = runs.get(runId);
+      if (!run) {
+        run = {
+          runId,
+          startedAt: typeof properties.startedAt === "string"
+            ? properties.startedAt
+            : entry.timestamp,
+          endedAt: entry.timestamp,
+          host: typeof properties.host === "string"
+            ? properties.host
+            : undefined,
+          pid: typeof properties.pid === "number" ? properties.pid : undefined,
+          gitCommit: typeof properties.gitCommit === "string"
+            ? properties.gitCommit
+            : undefined,
+          counts: { debug: 0, info: 0, warn: 0, error: 0, fatal: 0 },
+          files: [],
+        };
+        runs.set(runId, run);
+      }
+      run.counts[entry.level]++;
+      if (entry.timestamp > run.endedAt) run.endedAt = entry.timestamp;
+      if (!run.files.includes(fileName)) run.files.push(fileName);
+      // 終了時に書き込まれる実行の概要のログ
+      if (
+        typeof properties.exitCode === "number" &&
+        typeof properties.durationMs === "number"
+      ) {
+        run.exitCode = properties.exitCode;
+        run.durationMs = properties.durationMs;
+      }
+    }
+  }
+  return [...runs.values()].sort((a, b) =>
+    a.startedAt.localeCompare(b.startedAt)
+  );
+}
+
+/**
+ * LogEntry を、ログのフォーマッタに渡せるログレコードに戻す関数
+ * メッセージは値を埋め込んだ後の文字列として扱います。
+ * @param entry 対象のログ
+ * @returns ログレコード
+ */
+export function toLogRecord(entry: LogEntry): LogRecord {
+  return {
+    category: entry.category === "" ? [] : entry.category.split("."),
+    level: entry.level === "warn" ? "warning" : entry.level,
+    timestamp: Date.parse(entry.timestamp),
+    message: [entry.message],
+    rawMessage: entry.message,
+    properties: entry.properties,
+  };
+}
+
+// 出力中のログファイルのパスを取得するヘルパー関数 (見つからない場合は最新のログファイル)
+async function resolveLatestLogFile(
+  logDir: string,
+  scriptName: string,
+): Promise<string | undefined> {
+  try {
+    return join(
+      logDir,
+      await Deno.readLink(join(logDir, LATEST_LOG_FILE_NAME)),
+    );
+  } catch {
+    // シンボリックリンクを作成できない環境では、ファイル名が書き込まれたファイルを参照する
+  }
+  try {
+    const fileName = (await Deno.readTextFile(
+      join(logDir, LATEST_LOG_POINTER_FILE_NAME),
+    )).trim();
+    if (fileName !== "") return join(logDir, fileName);
+  } catch {
+    // latest.txt がない場合は、ログファイルの一覧から探す
+  }
+  const listResult = await listLogFiles(logDir, scriptName);
+  if (listResult.isErr()) return undefined;
+  return listResult.value.findLast((path) => path.endsWith(".log"));
+}
+
+// ファイルの指定した位置から末尾までを読み込むヘルパー関数 (ファイルがない場合は空)
+async function readFileFrom(
+  path: string,
+  offset: number,
+): Promise<Uint8Array> {
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(path, { read: true });
+  } catch (error: unknown) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    // ローテーション後に圧縮された場合は、圧縮したファイルの続きを読む
+    try {
+      const gzipFile = await Deno.open(`${path}.gz`, { read: true });
+      const bytes = new Uint8Array(
+        await new Response(
+          gzipFile.readable.pipeThrough(new DecompressionStream("gzip")),
+        ).arrayBuffer(),
+      );
+      return bytes.subarray(offset);
+    } catch {
+      // 削除された場合
+      return new Uint8Array();
+    }
+  }
+  await file.seek(offset, Deno.SeekMode.Start);
+  // readable は読み終えるとファイルを閉じる
+  return new Uint8Array(await new Response(file.readable).arrayBuffer());
+}
+
+// 指定した時間、または中断されるまで待つヘルパー関数
+function waitFor(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, milliseconds);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * 出力中のログファイルを `tail -f` のように追跡する関数
+ * 最初に出力中のファイルの内容を (isInitial が true)、その後は追記されたログを onEntries に渡します。
+ * ローテーションで出力先が切り替わった場合は、元のファイルを読み終えてから新しいファイルに移ります。
+ * @param logDir ログファイルのあるディレクトリ (`{createLogger の logDir}/{scriptName}`)
+ * @param scriptName スクリプト名 (ログファイル名の接頭辞)
+ * @param onEntries 読み込んだログを受け取る関数
+ * @param options 中断のシグナルと確認の間隔
+ * @returns 中断されると解決されるPromise
+ */
+export async function followLogEntries(
+  logDir: string,
+  scriptName: string,
+  onEntries: (entries: LogEntry[], isInitial: boolean) => void,
+  options: FollowLogOptions = {},
+): Promise<void> {
+  const { signal, intervalMs = 500 } = options;
+  const decoder = new TextDecoder();
+  // 追跡を始めた時点でファイルにあった内容かどうか
+  let isInitial = true;
+  let path: string | undefined;
+  let offset = 0;
+  // 書き込みの途中で読み込んだ、改行で終わっていない行
+  let partialLine = "";
+
+  while (!signal?.aborted) {
+    // 出力先を先に確認し、切り替わっていれば元のファイルの残りを読んでから移る
+    const latestPath = await resolveLatestLogFile(logDir, scriptName);
+    if (path !== undefined) {
+      const bytes = await readFileFrom(path, offset);
+      offset += bytes.length;
+      const lines = (partialLine + decoder.decode(bytes)).split("\n");
+      partialLine = lines.pop() ?? "";
+      const entries = lines.flatMap((line) => parseLogLine(line) ?? []);
+      if (entries.length > 0) onEntries(entries, isInitial);
+      isInitial = false;
+    }
+    if (latestPath !== undefined && latestPath !== path) {
+      path = latestPath;
+      offset = 0;
+      partialLine = "";
+      continue;
+    }
+    isInitial = false;
+    await waitFor(intervalMs, signal);
+  }
+}
+
+// "30m" のような相対時間、または日時の文字列を Date に変換するヘルパー関数
+function parseLogTime(value: string): Date | undefined {
+  const relative = /^(\d+)(s|m|h|d)$/.exec(value.trim());
+  if (relative) {
+    const unitMilliseconds = {
+      s: 1000,
+      m: 60_000,
+      h: 3_600_000,
+      d: 86_400_000,
+    };
+    return new Date(
+      Date.now() -
+        Number(relative[1]) *
+          unitMilliseconds[relative[2] as keyof typeof unitMilliseconds],
+    );
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : new Date(timestamp);
+}
+
+// --since, --until のスキーマ
+const LogTimeSchema = z.string()
+  .refine((value) => parseLogTime(value) !== undefined, {
+    message:
+      'Expected a date (e.g. "2025-01-01T09:00") or a duration (e.g. "30m", "2h", "7d")',
+  })
+  .transform((value) => parseLogTime(value) as Date)
+  .optional();
+
+const LogViewerArgsSchema = z.object({
+  logDir: z.string().default("logs").meta({
+    description: "createLogger に指定したログディレクトリ",
+    descriptions: { en: "Log directory passed to createLogger" },
+    alias: "d",
+    completion: "directory",
+  }),
+});
+
+const ScriptPositionals = {
+  script: z.string().meta({
+    description: "スクリプト名",
+    descriptions: { en: "Script name" },
+  }),
+};
+
+// 実行の概要を1行の文字列に変換するヘルパー関数
+function formatRunSummary(run: LogRunSummary): string {
+  const fields = [
+    run.startedAt,
+    run.runId,
+    `exit=${run.exitCode ?? "-"}`,
+    `duration=${run.durationMs !== undefined ? `${run.durationMs}ms` : "-"}`,
+    `records=${Object.values(run.counts).reduce((a, b) => a + b, 0)}`,
+    `warn=${run.counts.warn}`,
+    `error=${run.counts.error + run.counts.fatal}`,
+  ];
+  if (run.host !== undefined) fields.push(`host=${run.host}`);
+  if (run.pid !== undefined) fields.push(`pid=${run.pid}`);
+  if (run.gitCommit !== undefined) {
+    fields.push(`commit=${run.gitCommit.slice(0, 7)}`);
+  }
+  return fields.join("  ");
+}
+
+// "key=value" の一覧をオブジェクトに変換するヘルパー関数
+function parsePropertyConditions(
+  conditions: string[],
+): Record<string, string> {
+  return Object.fromEntries(conditions.map((condition) => {
+    const index = condition.indexOf("=");
+    return [condition.slice(0, index), condition.slice(index + 1)];
+  }));
+}
+
+/**
+ * ログファイルを閲覧するCLIを実行する関数
+ * - `runs <script>`: 実行ごとの概要 (開始時刻、実行ID、終了コード、件数など) を一覧表示する
+ * - `show <script>`: レベル・時刻・カテゴリ・プロパティで絞り込んだログを表示する
+ *   (`--follow` で出力中のファイルを追跡する)
+ * このファイルを直接実行した場合は、Deno.args を渡して実行します。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ */
+export async function runLogViewer(rawDenoArgs: string[]): Promise<void> {
+  const { command, args } = processCommands(rawDenoArgs, {
+    zodSchema: LogViewerArgsSchema,
+    commandName: "log_viewer",
+    commandDescription:
+      "createLogger が出力したJSON形式のログファイルを閲覧します。",
+    examples: [
+      { command: "log_viewer -d logs runs my_script" },
+      {
+        command: "log_viewer -d logs show my_script --level warn --since 1h",
+        description: "直近1時間の警告以上のログを表示",
+      },
+      {
+        command: "log_viewer -d logs show my_script --where txHash=0x1234",
+        description: "プロパティの値で絞り込む",
+      },
+      {
+        command: "log_viewer -d logs show my_script --follow",
+        description: "出力中のログファイルを追跡する",
+      },
+    ],
+    commands: {
+      runs: {
+        commandDescription: "実行ごとの概要を一覧表示します",
+        positionals: ScriptPositionals,
+      },
+      show: {
+        commandDescription: "ログを絞り込んで表示します",
+        positionals: ScriptPositionals,
+        zodSchema: z.object({
+          level: z.enum(logLevelOrder).optional().meta({
+            description: "このレベル以上のログのみを表示",
+            descriptions: { en: "Show only records at or above this level" },
+          }),
+          since: LogTimeSchema.meta({
+            description:
+              "この時刻以降のログのみを表示 (日時、または 30m, 2h, 7d)",
+            descriptions: {
+              en: "Show records since this time (a date, or 30m, 2h, 7d)",
+            },
+          }),
+          until: LogTimeSchema.meta({
+            description:
+              "この時刻より前のログのみを表示 (日時、または 30m, 2h, 7d)",
+            descriptions: {
+              en: "Show records before this time (a date, or 30m, 2h, 7d)",
+            },
+          }),
+          category: z.string().optional().meta({
+            description: "カテゴリ (下位のカテゴリを含む)",
+            descriptions: { en: "Category (including its children)" },
+            alias: "c",
+          }),
+          run: z.string().optional().meta({
+            description: "実行ID (前方一致)",
+            descriptions: { en: "Run ID (prefix match)" },
+            alias: "r",
+          }),
+          where: z.array(
+            z.string().regex(/^[^=]+=/, "Expected key=value"),
+          ).optional().meta({
+            description: "プロパティの値 (key=value、複数指定可)",
+            descriptions: { en: "Property value (key=value, repeatable)" },
+            alias: "w",
+            separator: false,
+          }),
+          format: z.enum(logFormats as [LogFormat, ...LogFormat[]]).default(
+            "pretty",
+          ).meta({
+            description: "出力形式",
+            descriptions: { en: "Output format" },
+            alias: "o",
+          }),
+          limit: z.number().int().positive().optional().meta({
+            description: "最後の指定件数のみを表示",
+            descriptions: { en: "Show only the last N records" },
+            alias: "n",
+          }),
+          follow: z.boolean().default(false).meta({
+            description: "出力中のログファイルを追跡する",
+            descriptions: { en: "Follow the current log file" },
+            alias: "f",
+          }),
+        }),
+      },
+    },
+  });
+
+  const scriptLogDir = join(args.logDir, args.script);
+
+  if (command === "runs") {
+    const filesResult = await readLogFiles(scriptLogDir, args.script);
+    if (filesResult.isErr()) {
+      console.error(filesResult.error.message);
+      Deno.exit(1);
+    }
+    const runs = summarizeLogRuns(filesResult.value);
+    if (runs.length === 0) {
+      console.info(`ログが見つかりません: ${scriptLogDir}`);
+      return;
+    }
+    for (const run of runs) console.info(formatRunSummary(run));
+    return;
+  }
+
+  const filter: LogEntryFilter = {
+    level: args.level,
+    since: args.since,
+    until: args.until,
+    category: args.category,
+    runId: args.run,
+    properties: parsePropertyConditions(args.where ?? []),
+  };
+  const formatter = getLogFormatter(
+    // 端末以外に出力する場合は装飾しない
+    args.format === "pretty" && !Deno.stdout.isTerminal()
+      ? "plain"
+      : args.format,
+  );
+  // 絞り込んだログを表示するヘルパー関数 (limit を指定した場合は最後の limit 件のみ)
+  const printEntries = (entries: LogEntry[], limit?: number) => {
+    const matched = entries.filter((entry) => matchesLogEntry(entry, filter));
+    const text = (limit !== undefined ? matched.slice(-limit) : matched)
+      .map((entry) => formatter(toLogRecord(entry)))
+      .join("");
+    try {
+      writeConsole(text);
+    } catch (error: unknown) {
+      // `| head` などで出力先が閉じられた場合は、それ以上表示せずに正常終了する
+      if (error instanceof Deno.errors.BrokenPipe) Deno.exit(0);
+      throw error;
+    }
+  };
+
+  if (args.follow) {
+    const controller = new AbortController();
+    Deno.addSignalListener("SIGINT", () => controller.abort());
+    await followLogEntries(
+      scriptLogDir,
+      args.script,
+      // 追跡を始めた時点の内容にのみ --limit を適用する
+      (entries, isInitial) =>
+        printEntries(entries, isInitial ? args.limit : undefined),
+      { signal: controller.signal },
+    );
+    return;
+  }
+
+  const filesResult = await readLogFiles(scriptLogDir, args.script);
+  if (filesResult.isErr()) {
+    console.error(filesResult.error.message);
+    Deno.exit(1);
+  }
+  printEntries(
+    filesResult.value.flatMap(({ entries }) => entries),
+    args.limit,
+  );
+}
+
+if (import.meta.main) {
+  await runLogViewer(Deno.args);
+}
@@ -1,30 +1,126 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { existsSync } from "jsr:@std/fs@^1.0.15";
 import { join } from "jsr:@std/path@^1.0.8";
-import { getFileSink } from "@logtape/file";
-import type { FormattedValues, Logger, LogRecord } from "@logtape/logtape";
+import type { Logger, LoggerConfig, LogRecord, Sink } from "@logtape/logtape";
 import {
+  compareLogLevel,
   configure,
-  getAnsiColorFormatter,
   getConsoleSink,
   getLogger,
-  withFilter,
+  reset,
+  resetSync,
 } from "@logtape/logtape";
+import { getLogFormatter, type LogFormat } from "./log_format.ts";
+import {
+  createRotatingFileSink,
+  type LogRetentionOptions,
+  type LogRotationOptions,
+} from "./log_rotation.ts";
+import { redactRecord } from "./redact.ts";
+import { createRunContext, type RunContext } from "./run_context.ts";
 
 /**
- * ロガーインスタンスを取得し、必要に応じて初期設定を行う関数
- * @param scriptName スクリプト名（カテゴリとして使用）
- * @param logLevel ログレベル
- * @param logDir ログディレクトリのパス（必須）
- * @returns ロガーインスタンス
+ * ログレベル (BaseArgsSchema の logLevel と同じ値)
  */
-export async function createLogger(
-  scriptName: string,
-  logLevel: "debug" | "info" | "warn" | "error",
-  logDir: string,
-): Promise<Logger> { // Logger 型を指定し、Promise を返すように変更
-  // LogTapeのログレベルに変換
-  const logtapeLevel = logLevel === "warn" ? "warning" : logLevel;
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * createLogger関数に渡すオプションを定義するインターフェース
+ */
+export interface LoggerOptions {
+  /** コンソールに出力する形式 (デフォルト: "pretty") */
+  consoleFormat?: LogFormat;
+  /**
+   * true の場合、コンソールへのログを全て標準エラー出力に書き込む
+   * (標準出力をパイプでデータの受け渡しに使う場合など。デフォルトでは debug/info は標準出力)
+   */
+  stderr?: boolean;
+  /** false の場合、ファイルに出力しない (logDir にディレクトリも作成しない) */
+  file?: boolean;
+  /** ファイルに出力する形式 (デフォルト: "json") */
+  fileFormat?: LogFormat;
+  /** ファイルに出力するログの最低レベル (省略時は createLogger の logLevel と同じ) */
+  fileLogLevel?: LogLevel;
+  /** ログファイルを新しいファイルに切り替える条件 (省略時は実行ごとに1ファイル) */
+  rotation?: LogRotationOptions;
+  /** 古いログファイルの保持数・保持日数・圧縮の設定 (省略時は削除しない) */
+  retention?: LogRetentionOptions;
+  /** 実行ID (省略時はランダムなUUID。最初の createLogger の呼び出しでのみ有効) */
+  runId?: string;
+}
+
+// createLogger で作成したロガーの出力先とレベル
+interface LoggerInstance {
+  consoleLevel: LogLevel;
+  fileLevel: LogLevel;
+  consoleSink: Sink;
+  // ファイルに出力しない場合は undefined
+  fileSink?: Sink & Disposable & AsyncDisposable;
+  // ファイル出力用Sinkを作り直す必要があるかの判定に使用する (ディレクトリ・形式・ローテーション・保持の設定)
+  fileSinkKey: string;
+}
+
+// スクリプト名ごとのロガー
+const loggerInstances = new Map<string, LoggerInstance>();
+// カテゴリごとに上書きしたログレベル (キーはカテゴリを "." で連結したもの)
+const categoryLevels = new Map<string, LogLevel>();
+// LogTapeの設定を順に反映するためのキュー (createLogger が並行して呼ばれた場合に備える)
+let configureQueue: Promise<void> = Promise.resolve();
+let unloadListenerAdded = false;
+// 現在の実行を識別する情報 (最初の createLogger の呼び出しで作成する)
+let runContext: RunContext | undefined;
+// withLogContext で付加するプロパティの保持先 (再設定しても付加中のプロパティが失われないよう共有する)
+const contextLocalStorage = new AsyncLocalStorage<Record<string, unknown>>();
+// コンソールの最下部に表示しているステータス行 (進捗バーなど、標準エラー出力に表示する)
+let consoleStatusLines: string[] = [];
 
+const encoder = new TextEncoder();
+
+// メタロガー用のコンソール出力用Sink
+const metaConsoleSink = getConsoleSink({
+  formatter: getLogFormatter("pretty"),
+});
+
+// 全てのバイト列を書き込むヘルパー関数 (writeSync は一部のみを書き込む場合がある)
+function writeAllSync(
+  file: { writeSync(data: Uint8Array): number },
+  text: string,
+): void {
+  const bytes = encoder.encode(text);
+  let written = 0;
+  while (written < bytes.length) {
+    written += file.writeSync(bytes.subarray(written));
+  }
+}
+
+// 表示中のステータス行を消去し、カーソルをステータス行の先頭に戻すヘルパー関数
+function clearConsoleStatus(): void {
+  if (consoleStatusLines.length === 0) return;
+  writeAllSync(
+    Deno.stderr,
+    `\r\x1b[2K${"\x1b[1A\x1b[2K".repeat(consoleStatusLines.length - 1)}`,
+  );
+}
+
+// ステータス行を表示するヘルパー関数 (カーソルは最後の行の末尾に残す)
+function drawConsoleStatus(): void {
+  if (consoleStatusLines.length === 0) return;
+  writeAllSync(Deno.stderr, consoleStatusLines.join("\n"));
+}
+
+// コンソール出力用Sinkを作成するヘルパー関数
+function createConsoleSink(format: LogFormat, stderr: boolean): Sink {
+  const formatter = getLogFormatter(format);
+  if (!stderr) return getConsoleSink({ formatter });
+  return (record) => writeAllSync(Deno.stderr, formatter(record));
+}
+
+// ファイル出力用Sinkを作成するヘルパー関数
+function createFileSink(
+  logDir: string,
+  scriptName: string,
+  options: LoggerOptions,
+): Promise<Sink & Disposable & AsyncDisposable> {
   // ログディレクトリの決定
   const LOG_DIR: string = join(logDir, scriptName);
 
@@ -38,66 +134,317 @@ export async function createLogger(
     }
   }
 
-  // ログファイル名の生成
-  const LOG_FILE_NAME = `${scriptName}-${
-    new Date().toISOString().replace(/[:.]/g, "-")
-  }.log`;
-  const LOG_FILE_PATH = join(LOG_DIR, LOG_FILE_NAME);
-
-  // ANSIカラーフォーマッタの作成（カテゴリ非表示）
-  const colorFormatter = getAnsiColorFormatter({
-    timestamp: "time",
-    timestampStyle: "dim",
-    timestampColor: "cyan",
-    level: "ABBR",
-    levelStyle: "bold",
-    levelColors: {
-      debug: "blue",
-      info: "green",
-      warning: "yellow",
-      error: "red",
-      fatal: "magenta",
-    },
-    // カテゴリを表示しないようにカスタムフォーマット関数を定義
-    format: (values: FormattedValues) => {
-      // カテゴリを無視して、タイムスタンプ、レベル、メッセージのみを表示
-      return `${values.timestamp} ${values.level}: ${values.message}`;
-    },
+  // ローテーションと古いファイルの整理を行う
+  return createRotatingFileSink(LOG_DIR, scriptName, {
+    formatter: getLogFormatter(options.fileFormat ?? "json"),
+    rotation: options.rotation,
+    retention: options.retention,
   });
+}
 
-  // JSONフォーマッタの作成（ファイル出力用）
-  const jsonFormatter = (record: LogRecord) => `${JSON.stringify(record)}\n`;
-
-  await configure({
-    sinks: {
-      // コンソール出力用Sink
-      console: getConsoleSink({
-        formatter: colorFormatter,
-      }),
-      // ファイル出力用Sink（INFO以上のみ）
-      file: withFilter(
-        getFileSink(LOG_FILE_PATH, {
-          formatter: jsonFormatter,
-        }),
-        "debug", // debug以上のログだけを通すフィルターを適用
-      ),
-    },
-    loggers: [
-      // コマンド用ロガー（コンソールはlogLevelに従い、ファイルはinfo以上）
-      {
-        category: scriptName,
-        lowestLevel: logtapeLevel,
-        sinks: ["console", "file"],
-      },
+// LogTapeのログレベルに変換するヘルパー関数
+function toLogtapeLevel(level: LogLevel) {
+  return level === "warn" ? "warning" : level;
+}
+
+// レコードが、カテゴリの上書きまたは出力先のレベル以上かどうかを判定するヘルパー関数
+function isLevelEnabled(record: LogRecord, sinkLevel: LogLevel): boolean {
+  // 最も具体的な (長い) カテゴリの上書きを優先する
+  let level = sinkLevel;
+  for (let length = record.category.length; length > 0; length--) {
+    const override = categoryLevels.get(
+      record.category.slice(0, length).join("."),
+    );
+    if (override) {
+      level = override;
+      break;
+    }
+  }
+  return compareLogLevel(record.level, toLogtapeLevel(level)) >= 0;
+}
+
+// 実行を識別する情報を付加し、秘密情報をマスクしたレコードを返すヘルパー関数
+function toOutputRecord(scriptName: string, record: LogRecord): LogRecord {
+  return redactRecord({
+    ...record,
+    properties: { ...runContext, script: scriptName, ...record.properties },
+  });
+}
+
+// 登録されている全てのロガーをLogTapeの設定に反映するヘルパー関数
+function applyConfiguration(): Promise<void> {
+  configureQueue = configureQueue.then(async () => {
+    // 全ての出力先で、秘密情報をマスクしてから出力する
+    const sinks: Record<string, Sink> = {
+      console: (record) => metaConsoleSink(redactRecord(record)),
+    };
+    const loggers: LoggerConfig<string, string>[] = [
       // メタロガーの設定を変更して警告レベル以上のみ表示
       {
         category: ["logtape", "meta"],
         lowestLevel: "warning",
         sinks: ["console"],
       },
-    ],
+    ];
+    for (const [scriptName, instance] of loggerInstances) {
+      // レベルの判定は呼び出し時に行い、レベルを変更してもLogTapeの再設定を不要にする
+      // (ファイル出力用Sinkの破棄はLogTapeに任せず、このモジュールで管理する)
+      sinks[`console:${scriptName}`] = (record) => {
+        if (isLevelEnabled(record, instance.consoleLevel)) {
+          // 進捗バーなどのステータス行の上にログを出力する
+          clearConsoleStatus();
+          instance.consoleSink(toOutputRecord(scriptName, record));
+          drawConsoleStatus();
+        }
+      };
+      sinks[`file:${scriptName}`] = (record) => {
+        if (instance.fileSink && isLevelEnabled(record, instance.fileLevel)) {
+          instance.fileSink(toOutputRecord(scriptName, record));
+        }
+      };
+      loggers.push({
+        category: scriptName,
+        lowestLevel: "debug",
+        sinks: [`console:${scriptName}`, `file:${scriptName}`],
+      });
+    }
+    await configure({ reset: true, sinks, loggers, contextLocalStorage });
+  });
+  return configureQueue;
+}
+
+/**
+ * ロガーインスタンスを取得し、必要に応じて初期設定を行う関数
+ * ログファイルは `{logDir}/{scriptName}/` に作成され、出力中のファイルは同じディレクトリの
+ * `latest.log` から参照できます。
+ * 異なるスクリプト名で複数回呼び出すと、それぞれのロガーが共存します。
+ * 同じスクリプト名で再度呼び出した場合は、ログレベルを更新し、ログディレクトリなどの設定が
+ * 変わった場合のみ新しいログファイルに切り替えます。
+ * @param scriptName スクリプト名（カテゴリとして使用）
+ * @param logLevel コンソールに出力するログの最低レベル
+ * @param logDir ログディレクトリのパス（必須、options.file が false の場合は使用されない）
+ * @param options 出力形式・出力先・ファイルのログレベル、ログファイルのローテーションと保持の設定
+ * @returns ロガーインスタンス
+ */
+export async function createLogger(
+  scriptName: string,
+  logLevel: LogLevel,
+  logDir: string,
+  options: LoggerOptions = {},
+): Promise<Logger> {
+  runContext ??= await createRunContext(options.runId);
+  const consoleSink = createConsoleSink(
+    options.consoleFormat ?? "pretty",
+    options.stderr ?? false,
+  );
+  const fileSinkKey = JSON.stringify([
+    options.file ?? true,
+    join(logDir, scriptName),
+    options.fileFormat,
+    options.rotation,
+    options.retention,
+  ]);
+  const existing = loggerInstances.get(scriptName);
+  if (existing) {
+    existing.consoleLevel = logLevel;
+    existing.fileLevel = options.fileLogLevel ?? logLevel;
+    existing.consoleSink = consoleSink;
+    if (existing.fileSinkKey !== fileSinkKey) {
+      const previousFileSink = existing.fileSink;
+      existing.fileSink = options.file === false
+        ? undefined
+        : await createFileSink(logDir, scriptName, options);
+      existing.fileSinkKey = fileSinkKey;
+      await previousFileSink?.[Symbol.asyncDispose]();
+    }
+    return getLogger(scriptName);
+  }
+
+  loggerInstances.set(scriptName, {
+    consoleLevel: logLevel,
+    fileLevel: options.fileLogLevel ?? logLevel,
+    consoleSink,
+    fileSink: options.file === false
+      ? undefined
+      : await createFileSink(logDir, scriptName, options),
+    fileSinkKey,
   });
+  await applyConfiguration();
+
+  // Deno.exit を含むプロセスの終了時に、ログファイルを閉じる
+  if (!unloadListenerAdded) {
+    addEventListener("unload", disposeLoggersSync);
+    unloadListenerAdded = true;
+  }
 
-  // ログファイルパスを返す代わりにロガーインスタンスを返す
   return getLogger(scriptName);
 }
+
+/**
+ * モジュールごとの子カテゴリのロガーを取得する関数
+ * 親のスクリプトのロガーと同じ出力先に出力され、setCategoryLogLevel でレベルを個別に変更できます。
+ * @param scriptName createLogger で指定したスクリプト名
+ * @param subcategory 子カテゴリ (例: "rpc", "db")
+ * @returns ロガーインスタンス
+ */
+export function getChildLogger(
+  scriptName: string,
+  ...subcategory: string[]
+): Logger {
+  return getLogger([scriptName, ...subcategory]);
+}
+
+/**
+ * コンソールに出力するログの最低レベルを実行中に変更する関数
+ * @param level 新しいログレベル
+ * @param scriptName 対象のスクリプト名 (省略時は全てのロガー)
+ */
+export function setConsoleLogLevel(level: LogLevel, scriptName?: string): void {
+  for (const [name, instance] of loggerInstances) {
+    if (scriptName === undefined || name === scriptName) {
+      instance.consoleLevel = level;
+    }
+  }
+}
+
+/**
+ * 特定のカテゴリ (とその子カテゴリ) のログレベルを実行中に上書きする関数
+ * 上書きしたレベルは、コンソールとファイルの両方の出力に適用されます。
+ * @param category 対象のカテゴリ (例: ["my_script", "rpc"])
+ * @param level 新しいログレベル (undefined の場合は上書きを解除する)
+ */
+export function setCategoryLogLevel(
+  category: string | string[],
+  level: LogLevel | undefined,
+): void {
+  const key = typeof category === "string" ? category : category.join(".");
+  if (level === undefined) {
+    categoryLevels.delete(key);
+  } else {
+    categoryLevels.set(key, level);
+  }
+}
+
+/**
+ * コンソールの最下部に表示し続けるステータス行 (進捗バーなど) を設定する関数
+ * ステータス行は標準エラー出力に表示され、ロガーや writeConsole がコンソールに出力する際は、
+ * ステータス行を一度消去して出力してから再び表示します。
+ * 標準エラー出力が端末の場合のみ使用し、各行は端末の幅に収めてください。
+ * @param lines 表示する行 (空の配列の場合はステータス行を消去する)
+ */
+export function setConsoleStatus(lines: string[]): void {
+  clearConsoleStatus();
+  consoleStatusLines = [...lines];
+  drawConsoleStatus();
+}
+
+/**
+ * ステータス行と重ならないように、コンソールに文字列を出力する関数
+ * 進捗バーの表示中に console.log で出力すると表示が崩れるため、代わりにこの関数を使用します。
+ * @param text 出力する文字列 (改行は付加されない)
+ * @param stderr true の場合は標準エラー出力に出力する (デフォルト: 標準出力)
+ */
+export function writeConsole(text: string, stderr = false): void {
+  clearConsoleStatus();
+  writeAllSync(stderr ? Deno.stderr : Deno.stdout, text);
+  drawConsoleStatus();
+}
+
+/**
+ * 現在の実行を識別する情報を取得する関数
+ * @returns 実行を識別する情報 (createLogger を呼び出す前は undefined)
+ */
+export function getRunContext(): RunContext | undefined {
+  return runContext;
+}
+
+// 実行の概要 (終了コードと所要時間) を各ロガーのログファイルに書き込むヘルパー関数
+function writeRunSummary(): void {
+  const properties = {
+    exitCode: Deno.exitCode,
+    durationMs: Math.round(performance.now()),
+  };
+  for (const [scriptName, instance] of loggerInstances) {
+    // コンソールの出力を増やさないよう、ログファイルにのみ書き込む
+    instance.fileSink?.(toOutputRecord(scriptName, {
+      category: [scriptName],
+      level: "info",
+      timestamp: Date.now(),
+      message: [
+        "実行が終了しました (終了コード: ",
+        properties.exitCode,
+        ", 所要時間: ",
+        properties.durationMs,
+        "ms)",
+      ],
+      rawMessage:
+        "実行が終了しました (終了コード: {exitCode}, 所要時間: {durationMs}ms)",
+      properties,
+    }));
+  }
+}
+
+/**
+ * 全てのロガーを破棄する関数
+ * 実行の概要 (終了コードと所要時間) をログファイルに書き込み、ログファイルを閉じ、
+ * ローテーション後の古いファイルの整理の完了を待ってから、LogTapeの設定を解除します。
+ * スクリプトの最後に呼び出すと、全てのログが確実に書き込まれた状態で終了できます。
+ */
+export async function disposeLoggers(): Promise<void> {
+  await configureQueue;
+  writeRunSummary();
+  setConsoleStatus([]);
+  const instances = [...loggerInstances.values()];
+  loggerInstances.clear();
+  categoryLevels.clear();
+  await Promise.all(
+    instances.map((instance) => instance.fileSink?.[Symbol.asyncDispose]()),
+  );
+  await reset();
+}
+
+/**
+ * 全てのロガーを同期的に破棄する関数
+ * Deno.exit の直前など、非同期処理を待てない場合に使用します (古いファイルの整理の完了は待ちません)。
+ */
+export function disposeLoggersSync(): void {
+  writeRunSummary();
+  setConsoleStatus([]);
+  const instances = [...loggerInstances.values()];
+  loggerInstances.clear();
+  categoryLevels.clear();
+  for (const instance of instances) {
+    instance.fileSink?.[Symbol.dispose]();
+  }
+  resetSync();
+}
+
+/**
+ * 終了コードの規約
+ * - success (0): 正常終了 (--help の表示を含む)
+ * - failure (1): 実行時のエラー (RPCの失敗、不正な入力ファイルなど)
+ * - usage (2): 引数の誤りなど、使用方法の誤り
+ * - interrupted (130): SIGINT (Ctrl+C) などによる中断
+ */
+export const exitCodes: Readonly<{
+  success: number;
+  failure: number;
+  usage: number;
+  interrupted: number;
+}> = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  interrupted: 130,
+};
+
+/**
+ * ロガーを破棄してからプロセスを終了する関数
+ * 終了コードを実行の概要としてログファイルに書き込み、ログファイルを閉じてから終了します。
+ * @param code 終了コード
+ */
+export function exitWithLogs(code: number): never {
+  Deno.exitCode = code;
+  disposeLoggersSync();
+  Deno.exit(code);
+}
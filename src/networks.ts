@@ -0,0 +1,260 @@
+import { err, ok, type Result } from "neverthrow";
+import { type Chain, defineChain } from "viem";
+import {
+  anvil,
+  arbitrum,
+  arbitrumSepolia,
+  base,
+  baseSepolia,
+  holesky,
+  kaia,
+  kairos,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  sepolia,
+} from "viem/chains";
+import { z } from "zod@next";
+import { readConfigFile, readEnv, toEnvName } from "./config.ts";
+
+/**
+ * ネットワークの定義
+ * --network に指定する名前と、接続に必要なチェーンの情報を対応付けます。
+ */
+export interface NetworkDefinition {
+  /** ネットワーク名 (--network に指定する値、例: "sepolia") */
+  name: string;
+  chainId: number;
+  /** デフォルトのRPC URL (先頭のURLを使用し、残りは予備として扱う) */
+  rpcUrls: string[];
+  /** ブロックエクスプローラーのURL (例: "https://sepolia.etherscan.io") */
+  blockExplorerUrl?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  testnet?: boolean;
+  /** 元になったviemのチェーン定義 (チェーン固有のフォーマッタなどを引き継ぐために使用) */
+  chain?: Chain;
+}
+
+/**
+ * デフォルトで登録されているネットワーク名と、viemのチェーン定義の対応
+ */
+export const defaultNetworkChains: Readonly<Record<string, Chain>> = {
+  mainnet,
+  sepolia,
+  holesky,
+  kaia,
+  kairos,
+  polygon,
+  "polygon-amoy": polygonAmoy,
+  arbitrum,
+  "arbitrum-sepolia": arbitrumSepolia,
+  optimism,
+  "optimism-sepolia": optimismSepolia,
+  base,
+  "base-sepolia": baseSepolia,
+  anvil,
+};
+
+/**
+ * viemのチェーン定義からネットワークの定義を作成する関数
+ * @param name ネットワーク名
+ * @param chain viemのチェーン定義 (例: `import { avalanche } from "viem/chains"`)
+ * @returns ネットワークの定義
+ */
+export function networkFromChain(
+  name: string,
+  chain: Chain,
+): NetworkDefinition {
+  return {
+    name,
+    chainId: chain.id,
+    rpcUrls: [...chain.rpcUrls.default.http],
+    blockExplorerUrl: chain.blockExplorers?.default.url,
+    nativeCurrency: { ...chain.nativeCurrency },
+    testnet: chain.testnet,
+    chain,
+  };
+}
+
+// 登録されているネットワーク (登録順)
+const networkRegistry = new Map<string, NetworkDefinition>(
+  Object.entries(defaultNetworkChains).map((
+    [name, chain],
+  ) => [name, networkFromChain(name, chain)]),
+);
+
+/**
+ * ネットワークを登録する関数
+ * 同じ名前のネットワークが登録されている場合は置き換えます。
+ * createNetworkArgsSchema などで作成するスキーマには、作成時点で登録されているネットワークが含まれます。
+ * @param network ネットワークの定義
+ */
+export function registerNetwork(network: NetworkDefinition): void {
+  networkRegistry.set(network.name, network);
+}
+
+/**
+ * 登録されているネットワークを取得する関数
+ * @param name ネットワーク名
+ * @returns ネットワークの定義 (登録されていない場合は undefined)
+ */
+export function getNetwork(name: string): NetworkDefinition | undefined {
+  return networkRegistry.get(name);
+}
+
+/**
+ * 登録されている全てのネットワークを、登録順に取得する関数
+ * @returns ネットワークの定義の一覧
+ */
+export function getNetworks(): NetworkDefinition[] {
+  return [...networkRegistry.values()];
+}
+
+// 設定ファイルのネットワークの定義 (既存のネットワークを上書きする場合は一部の項目のみでよい)
+const NetworkConfigSchema = z.object({
+  chainId: z.number().int().positive().optional(),
+  rpcUrls: z.array(z.string().url()).min(1).optional(),
+  blockExplorerUrl: z.string().url().optional(),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number().int().nonnegative(),
+  }).optional(),
+  testnet: z.boolean().optional(),
+});
+
+const NetworksConfigSchema = z.object({
+  networks: z.record(z.string(), NetworkConfigSchema),
+});
+
+/**
+ * 設定ファイルからネットワークを読み込み、登録する関数
+ * 設定ファイル (.json/.jsonc/.toml) の `networks` に、ネットワーク名ごとの定義を記述します。
+ * 登録済みのネットワーク名を指定した場合は、指定した項目のみを上書きします
+ * (例: sepolia の rpcUrls だけを自前のノードに変更する)。
+ * 新しいネットワークでは chainId, rpcUrls, nativeCurrency が必須です。
+ * @param path 設定ファイルのパス
+ * @returns 登録したネットワークの定義の一覧を含むResult
+ */
+export function loadNetworkConfig(
+  path: string,
+): Result<NetworkDefinition[], Error> {
+  const configResult = readConfigFile(path);
+  if (configResult.isErr()) return err(configResult.error);
+
+  const parsed = NetworksConfigSchema.safeParse(configResult.value.values);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      `${issue.path.join(".")}: ${issue.message}`
+    );
+    return err(
+      new Error(`Invalid network config ${path}: ${issues.join(", ")}`),
+    );
+  }
+
+  const networks: NetworkDefinition[] = [];
+  for (const [name, config] of Object.entries(parsed.data.networks)) {
+    const existing = networkRegistry.get(name);
+    const chainId = config.chainId ?? existing?.chainId;
+    const rpcUrls = config.rpcUrls ?? existing?.rpcUrls;
+    const nativeCurrency = config.nativeCurrency ?? existing?.nativeCurrency;
+    if (
+      chainId === undefined || rpcUrls === undefined ||
+      nativeCurrency === undefined
+    ) {
+      return err(
+        new Error(
+          `Network "${name}" in ${path} must define chainId, rpcUrls and nativeCurrency`,
+        ),
+      );
+    }
+    networks.push({
+      name,
+      chainId,
+      rpcUrls,
+      blockExplorerUrl: config.blockExplorerUrl ?? existing?.blockExplorerUrl,
+      nativeCurrency,
+      testnet: config.testnet ?? existing?.testnet,
+      // チェーンIDを変更した場合は、元のチェーン固有の設定を引き継がない
+      chain: existing?.chainId === chainId ? existing.chain : undefined,
+    });
+  }
+  // 途中でエラーになった場合に一部だけが登録されないよう、全て検証してから登録する
+  for (const network of networks) registerNetwork(network);
+  return ok(networks);
+}
+
+/**
+ * ネットワークの定義をviemのチェーン定義に変換する関数
+ * 元になったviemのチェーン定義がある場合は、その設定 (フォーマッタなど) を引き継ぎます。
+ * @param network ネットワークの定義
+ * @param rpcUrl デフォルトのRPC URLの代わりに使用するURL
+ * @returns viemのチェーン定義
+ */
+export function toViemChain(
+  network: NetworkDefinition,
+  rpcUrl?: string,
+): Chain {
+  return defineChain({
+    ...network.chain,
+    id: network.chainId,
+    name: network.chain?.name ?? network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: {
+      default: { http: rpcUrl ? [rpcUrl] : network.rpcUrls },
+    },
+    blockExplorers: network.blockExplorerUrl
+      ? {
+        default: {
+          name: network.chain?.blockExplorers?.default.name ?? "Explorer",
+          url: network.blockExplorerUrl,
+        },
+      }
+      : undefined,
+    testnet: network.testnet,
+  });
+}
+
+/**
+ * ネットワークごとのRPC URLを指定する環境変数名を返す関数
+ * @param network ネットワーク名
+ * @returns 環境変数名 (例: "ARBITRUM_SEPOLIA_RPC_URL")
+ */
+export function toNetworkRpcUrlEnvName(network: string): string {
+  return toEnvName([network, "rpcUrl"]);
+}
+
+/**
+ * 使用するRPC URLを決定する関数
+ * 次の順に探し、最初に見つかったURLを返します。
+ * 1. rpcUrl (--rpc-url、または環境変数 RPC_URL から processArgs が設定した値)
+ * 2. ネットワークごとの環境変数 (例: SEPOLIA_RPC_URL)
+ * 3. ネットワークのデフォルトのRPC URL
+ * @param args network と rpcUrl を含む引数 (EthArgsSchema の解析結果など)
+ * @returns RPC URLを含むResult (ネットワークが登録されていない場合はエラー)
+ */
+export function resolveRpcUrl(
+  args: { network: string; rpcUrl?: string },
+): Result<string, Error> {
+  if (args.rpcUrl) return ok(args.rpcUrl);
+  const envRpcUrl = readEnv(toNetworkRpcUrlEnvName(args.network));
+  if (envRpcUrl) return ok(envRpcUrl);
+
+  const network = networkRegistry.get(args.network);
+  if (!network) {
+    return err(
+      new Error(
+        `Unknown network: ${args.network} (available: ${
+          [...networkRegistry.keys()].join(", ")
+        })`,
+      ),
+    );
+  }
+  const defaultRpcUrl = network.rpcUrls[0];
+  if (!defaultRpcUrl) {
+    return err(new Error(`No RPC URL is configured for ${args.network}`));
+  }
+  return ok(defaultRpcUrl);
+}
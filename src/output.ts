@@ -0,0 +1,290 @@
+import { stringify } from "jsr:@std/csv@^1.0.6";
+import { getMessages, type LocaleOptions } from "./i18n.ts";
+import { exitCodes, exitWithLogs, writeConsole } from "./logger.ts";
+import { redactText } from "./redact.ts";
+import { formatTable, type TableColumn } from "./table.ts";
+
+/**
+ * コマンドの結果の出力形式
+ * - "text": 人が読むための形式 (オブジェクトは「項目: 値」の行、配列は表)
+ * - "json": JSON (インデント付き)
+ * - "jsonl": 1行に1件のJSON
+ * - "csv": ヘッダー付きのCSV
+ */
+export type OutputFormat = "text" | "json" | "jsonl" | "csv";
+
+/**
+ * 対応している出力形式の一覧
+ */
+export const outputFormats: readonly OutputFormat[] = [
+  "text",
+  "json",
+  "jsonl",
+  "csv",
+];
+
+/**
+ * 出力するコマンドの結果 (1件のオブジェクト、または行の配列)
+ */
+export type OutputData = Record<string, unknown> | Record<string, unknown>[];
+
+/**
+ * formatOutput関数などに渡すオプションを定義するインターフェース
+ * OutputArgsSchema の解析結果 (output) を format に渡します。
+ */
+export interface OutputOptions extends LocaleOptions {
+  format: OutputFormat;
+  /** 出力する列 (text の表と csv で使用、デフォルト: 全ての行に現れるキー) */
+  columns?: (string | TableColumn)[];
+  /** text 形式でオブジェクトを出力する場合の項目名 (例: { address: "アドレス" }) */
+  labels?: Record<string, string>;
+}
+
+/**
+ * 解析前のコマンドライン引数から、--output で指定された出力形式を取得する関数
+ * 引数の検証エラーを指定された形式で出力するために使用します
+ * (`--output json` と `--output=json` に対応し、`--` 以降は無視します)。
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列
+ * @returns 出力形式 (指定がない場合や不明な形式の場合は "text")
+ */
+export function detectOutputFormat(rawDenoArgs: string[]): OutputFormat {
+  let format: OutputFormat = "text";
+  for (let index = 0; index < rawDenoArgs.length; index++) {
+    const arg = rawDenoArgs[index];
+    if (arg === "--") break;
+    const value = arg === "--output"
+      ? rawDenoArgs[index + 1]
+      : arg.startsWith("--output=")
+      ? arg.slice("--output=".length)
+      : undefined;
+    if (outputFormats.includes(value as OutputFormat)) {
+      format = value as OutputFormat;
+    }
+  }
+  return format;
+}
+
+/**
+ * エラーを出力形式や終了コードに対応付けるための情報
+ */
+export interface ErrorDescription {
+  /** 安定したエラーコード (例: "INVALID_ARGUMENTS") */
+  code: string;
+  message: string;
+  /** エラーに対応する終了コード (exitCodes の規約に従う) */
+  exitCode: number;
+  /** エラーの詳細 (引数の検証エラーの一覧など) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * deno-cli が返すエラーのエラーコード
+ * - INVALID_ARGUMENTS: 引数の検証エラー (終了コード 2)
+ * - CONFIRMATION_REQUIRED: 対話的に確認できない環境で --yes が必要 (終了コード 2)
+ * - CANCELLED: 確認で実行が取り消された (終了コード 1)
+ * - INTERRUPTED: 中断された (終了コード 130)
+ * - RUNTIME_ERROR: その他の実行時のエラー (終了コード 1)
+ */
+export const errorCodes: Readonly<{
+  invalidArguments: string;
+  confirmationRequired: string;
+  cancelled: string;
+  interrupted: string;
+  runtimeError: string;
+}> = {
+  invalidArguments: "INVALID_ARGUMENTS",
+  confirmationRequired: "CONFIRMATION_REQUIRED",
+  cancelled: "CANCELLED",
+  interrupted: "INTERRUPTED",
+  runtimeError: "RUNTIME_ERROR",
+};
+
+/**
+ * エラーコードと終了コードを指定できるエラー
+ * スクリプト固有のエラーを、安定したエラーコードで出力するために使用します。
+ * @example err(new CommandError("INSUFFICIENT_BALANCE", "Balance is too low", { details: { balance } }))
+ */
+export class CommandError extends Error {
+  readonly kind = "command";
+  readonly exitCode: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    readonly code: string,
+    message: string,
+    options: {
+      exitCode?: number;
+      details?: Record<string, unknown>;
+      cause?: unknown;
+    } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "CommandError";
+    this.exitCode = options.exitCode ?? exitCodes.failure;
+    this.details = options.details;
+  }
+}
+
+// JSONで表現できない値 (bigint, Date) を変換するヘルパー関数
+function toJsonValue(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+// text/csv のセルの値を文字列に変換するヘルパー関数
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value, toJsonValue);
+  return String(value);
+}
+
+/**
+ * エラーから、エラーコード・メッセージ・終了コードを取得する関数
+ * deno-cli のエラー (引数の検証エラー、ConfirmationError、CommandError) は kind で判別し、
+ * AbortSignal による中断は INTERRUPTED、それ以外は RUNTIME_ERROR として扱います。
+ * @param error エラー (Result のエラーや、捕捉した例外)
+ * @returns エラーコード・メッセージ・終了コード
+ */
+export function describeError(error: unknown): ErrorDescription {
+  const message = redactText(
+    error instanceof Error ? error.message : String(error),
+  );
+  const kind = (error as { kind?: unknown } | null)?.kind;
+  if (kind === "validation") {
+    const issues = (error as { issues: { message: string }[] }).issues;
+    return {
+      code: errorCodes.invalidArguments,
+      message,
+      exitCode: exitCodes.usage,
+      details: {
+        issues: issues.map((issue) => ({
+          ...issue,
+          message: redactText(issue.message),
+        })),
+      },
+    };
+  }
+  if (kind === "confirmation") {
+    return (error as { reason: string }).reason === "declined"
+      ? { code: errorCodes.cancelled, message, exitCode: exitCodes.failure }
+      : {
+        code: errorCodes.confirmationRequired,
+        message,
+        exitCode: exitCodes.usage,
+      };
+  }
+  if (error instanceof CommandError) {
+    return {
+      code: error.code,
+      message,
+      exitCode: error.exitCode,
+      details: error.details,
+    };
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return {
+      code: errorCodes.interrupted,
+      message,
+      exitCode: exitCodes.interrupted,
+    };
+  }
+  return {
+    code: errorCodes.runtimeError,
+    message,
+    exitCode: exitCodes.failure,
+  };
+}
+
+/**
+ * コマンドの結果を、指定した形式の文字列に変換する関数
+ * bigint は10進数の文字列、Date はISO 8601形式に変換します。
+ * @param data 出力する結果 (1件のオブジェクト、または行の配列)
+ * @param options 出力形式・列・項目名の設定
+ * @returns 出力する文字列 (末尾に改行を含む)
+ */
+export function formatOutput(data: OutputData, options: OutputOptions): string {
+  const rows = Array.isArray(data) ? data : [data];
+  switch (options.format) {
+    case "json":
+      return `${JSON.stringify(data, toJsonValue, 2)}\n`;
+    case "jsonl":
+      return rows.map((row) => `${JSON.stringify(row, toJsonValue)}\n`)
+        .join("");
+    case "csv": {
+      if (rows.length === 0) return "";
+      const columns = (
+        options.columns ??
+          [...new Set(rows.flatMap((row) => Object.keys(row)))]
+      ).map((column) => typeof column === "string" ? column : column.key);
+      return stringify([
+        columns,
+        ...rows.map((row) => columns.map((column) => formatValue(row[column]))),
+      ]);
+    }
+    case "text":
+      if (Array.isArray(data)) {
+        return formatTable(data, { columns: options.columns });
+      }
+      return Object.entries(data).map(([key, value]) =>
+        `${options.labels?.[key] ?? key}: ${formatValue(value)}\n`
+      ).join("");
+  }
+}
+
+/**
+ * コマンドの結果を、指定した形式で標準出力に出力する関数
+ * パイプラインで扱えるよう、結果のみを標準出力に出力します (ログは標準エラー出力に出力してください)。
+ * @param data 出力する結果 (1件のオブジェクト、または行の配列)
+ * @param options 出力形式・列・項目名の設定
+ */
+export function printOutput(data: OutputData, options: OutputOptions): void {
+  writeConsole(formatOutput(data, options));
+}
+
+/**
+ * エラーを、指定した形式の文字列に変換する関数
+ * text 形式ではメッセージのみ、それ以外の形式では
+ * `{"error":{"code":"...","message":"...","exitCode":1}}` のJSONに変換します。
+ * @param error エラー
+ * @param options 出力形式と言語
+ * @returns 出力する文字列 (末尾に改行を含む)
+ */
+export function formatError(
+  error: unknown,
+  options: { format: OutputFormat } & LocaleOptions,
+): string {
+  const description = describeError(error);
+  if (options.format === "text") {
+    return `${
+      getMessages(options.locale).commandFailed(description.message)
+    }\n`;
+  }
+  return `${JSON.stringify({ error: description }, toJsonValue)}\n`;
+}
+
+/**
+ * エラーを、指定した形式で標準エラー出力に出力する関数
+ * @param error エラー (Result のエラーや、捕捉した例外)
+ * @param options 出力形式と言語
+ * @returns エラーに対応する終了コード
+ */
+export function printError(
+  error: unknown,
+  options: { format: OutputFormat } & LocaleOptions,
+): number {
+  writeConsole(formatError(error, options), true);
+  return describeError(error).exitCode;
+}
+
+/**
+ * エラーを、指定した形式で標準エラー出力に出力し、エラーに対応する終了コードで終了する関数
+ * 終了する前に、createLogger で作成したロガーのログファイルを閉じます。
+ * @param error エラー (Result のエラーや、捕捉した例外)
+ * @param options 出力形式と言語
+ */
+export function exitWithError(
+  error: unknown,
+  options: { format: OutputFormat } & LocaleOptions,
+): never {
+  exitWithLogs(printError(error, options));
+}
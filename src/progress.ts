@@ -0,0 +1,272 @@
+import type { Logger } from "@logtape/logtape";
+import { displayWidth } from "./help.ts";
+import { setConsoleStatus } from "./logger.ts";
+
+/**
+ * 進捗バーとスピナーに共通のオプション
+ */
+export interface ProgressOptions {
+  /** 進捗を記録するロガー (端末でない場合の途中経過と、終了時の概要を出力する) */
+  logger: Logger;
+  /** 表示名 (例: "送金") */
+  label: string;
+  /** 端末に進捗を表示する (デフォルト: 標準エラー出力が端末の場合) */
+  interactive?: boolean;
+}
+
+/**
+ * createProgressBar関数に渡すオプションを定義するインターフェース
+ */
+export interface ProgressBarOptions extends ProgressOptions {
+  /** 全体の件数 */
+  total: number;
+  /** 端末でない場合に、途中経過をログに出力する間隔 (ミリ秒、デフォルト: 10000) */
+  logIntervalMs?: number;
+}
+
+/**
+ * 件数で進捗を表示する進捗バー
+ */
+export interface ProgressBar {
+  /** 完了した件数を増やす (デフォルト: 1) */
+  increment(amount?: number): void;
+  /** 完了した件数を設定する */
+  update(completed: number): void;
+  /** 進捗バーの右に表示するメッセージ (処理中の項目など) を設定する */
+  setMessage(message: string): void;
+  /** 進捗バーを消去し、最終的な進捗をログに記録する */
+  stop(): void;
+}
+
+/**
+ * 件数の分からない処理の実行中を表示するスピナー
+ */
+export interface Spinner {
+  /** スピナーの右に表示するメッセージを設定する */
+  setMessage(message: string): void;
+  /**
+   * スピナーを消去し、所要時間をログに記録する
+   * @param result ログに記録する結果 (デフォルト: "完了しました")
+   */
+  stop(result?: string): void;
+}
+
+// ステータス行に表示中の進捗バーとスピナー
+interface ProgressItem {
+  render(now: number): string;
+}
+
+const DEFAULT_LOG_INTERVAL_MS = 10_000;
+const RENDER_INTERVAL_MS = 100;
+const BAR_WIDTH = 24;
+const SPINNER_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+
+// 表示中の進捗バーとスピナー (表示する順)
+const activeItems: ProgressItem[] = [];
+// 表示を更新するタイマー (表示中の項目がある間のみ動かす)
+let renderTimer: ReturnType<typeof setInterval> | undefined;
+
+// 端末の幅を取得するヘルパー関数
+function getTerminalWidth(): number {
+  try {
+    return Deno.consoleSize().columns;
+  } catch {
+    return 80;
+  }
+}
+
+// 表示幅を超える部分を切り捨てるヘルパー関数 (折り返すとステータス行を消去できなくなるため)
+function truncateToWidth(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  let truncated = "";
+  let truncatedWidth = 0;
+  for (const character of text) {
+    const characterWidth = displayWidth(character);
+    if (truncatedWidth + characterWidth > width - 1) break;
+    truncated += character;
+    truncatedWidth += characterWidth;
+  }
+  return `${truncated}…`;
+}
+
+// 経過時間を "1:05" や "1:02:03" の形式に変換するヘルパー関数
+function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+// 表示中の項目をステータス行に表示するヘルパー関数
+function renderActiveItems(): void {
+  const now = performance.now();
+  // 最後の列に書き込むと端末によっては改行されるため、1列空ける
+  const width = getTerminalWidth() - 1;
+  setConsoleStatus(
+    activeItems.map((item) => truncateToWidth(item.render(now), width)),
+  );
+}
+
+// ステータス行に項目を追加するヘルパー関数
+function addActiveItem(item: ProgressItem): void {
+  activeItems.push(item);
+  if (renderTimer === undefined) {
+    const timer = setInterval(renderActiveItems, RENDER_INTERVAL_MS);
+    // 進捗の表示だけのためにプロセスの終了を待たせない
+    Deno.unrefTimer(timer);
+    renderTimer = timer;
+  }
+  renderActiveItems();
+}
+
+// ステータス行から項目を取り除くヘルパー関数
+function removeActiveItem(item: ProgressItem): void {
+  const index = activeItems.indexOf(item);
+  if (index === -1) return;
+  activeItems.splice(index, 1);
+  if (activeItems.length === 0) {
+    clearInterval(renderTimer);
+    renderTimer = undefined;
+  }
+  renderActiveItems();
+}
+
+/**
+ * 進捗バーを作成する関数
+ * 標準エラー出力が端末の場合は、コンソールの最下部に進捗バーを表示し、ロガーの出力は
+ * 進捗バーの上に表示されます。端末でない場合は、一定の間隔で途中経過をログに出力します。
+ * 終了時には、最終的な進捗と所要時間をロガーに記録します (ログファイルにも残る)。
+ * @param options ロガー・表示名・全体の件数などの設定
+ * @returns 進捗バー
+ */
+export function createProgressBar(options: ProgressBarOptions): ProgressBar {
+  const {
+    logger,
+    label,
+    total,
+    interactive = Deno.stderr.isTerminal(),
+    logIntervalMs = DEFAULT_LOG_INTERVAL_MS,
+  } = options;
+  const startedAt = performance.now();
+  let completed = 0;
+  let message = "";
+  let lastLoggedAt = startedAt;
+  let stopped = false;
+
+  const item: ProgressItem = {
+    render(now) {
+      const ratio = total > 0 ? Math.min(completed / total, 1) : 1;
+      const filled = Math.round(ratio * BAR_WIDTH);
+      const elapsed = now - startedAt;
+      // 完了した件数の割合から残り時間を推定する
+      const remaining = completed > 0 && completed < total
+        ? ` 残り ${formatDuration(elapsed / completed * (total - completed))}`
+        : "";
+      return [
+        label,
+        `${"█".repeat(filled)}${"░".repeat(BAR_WIDTH - filled)}`,
+        `${completed}/${total}`,
+        `${Math.floor(ratio * 100)}%`,
+        `${formatDuration(elapsed)}${remaining}`,
+        message,
+      ].filter((part) => part !== "").join(" ");
+    },
+  };
+  if (interactive) addActiveItem(item);
+
+  const update = (value: number) => {
+    if (stopped) return;
+    completed = value;
+    if (interactive) return;
+    const now = performance.now();
+    if (now - lastLoggedAt >= logIntervalMs) {
+      lastLoggedAt = now;
+      logger.info("{label}: {completed}/{total} 件 ({percent}%)", {
+        label,
+        completed,
+        total,
+        percent: total > 0 ? Math.floor(completed / total * 100) : 100,
+      });
+    }
+  };
+
+  return {
+    increment: (amount = 1) => update(completed + amount),
+    update,
+    setMessage: (value) => {
+      message = value;
+    },
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      if (interactive) removeActiveItem(item);
+      const properties = {
+        label,
+        completed,
+        total,
+        durationMs: Math.round(performance.now() - startedAt),
+      };
+      if (completed >= total) {
+        logger.info(
+          "{label}: {completed}/{total} 件が完了しました (所要時間: {durationMs}ms)",
+          properties,
+        );
+      } else {
+        logger.warn(
+          "{label}: {completed}/{total} 件で中断しました (所要時間: {durationMs}ms)",
+          properties,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * スピナーを作成する関数
+ * 標準エラー出力が端末の場合は、コンソールの最下部にスピナーを表示し、ロガーの出力は
+ * スピナーの上に表示されます。端末でない場合は、開始時にログを出力します。
+ * 終了時には、結果と所要時間をロガーに記録します (ログファイルにも残る)。
+ * @param options ロガー・表示名などの設定
+ * @returns スピナー
+ */
+export function createSpinner(options: ProgressOptions): Spinner {
+  const { logger, label, interactive = Deno.stderr.isTerminal() } = options;
+  const startedAt = performance.now();
+  let message = "";
+  let stopped = false;
+
+  const item: ProgressItem = {
+    render(now) {
+      const frame = SPINNER_FRAMES[
+        Math.floor((now - startedAt) / RENDER_INTERVAL_MS) %
+        SPINNER_FRAMES.length
+      ];
+      return [frame, label, formatDuration(now - startedAt), message]
+        .filter((part) => part !== "").join(" ");
+    },
+  };
+  if (interactive) {
+    addActiveItem(item);
+  } else {
+    logger.info("{label}: 開始しました", { label });
+  }
+
+  return {
+    setMessage: (value) => {
+      message = value;
+    },
+    stop: (result = "完了しました") => {
+      if (stopped) return;
+      stopped = true;
+      if (interactive) removeActiveItem(item);
+      logger.info("{label}: {result} (所要時間: {durationMs}ms)", {
+        label,
+        result,
+        durationMs: Math.round(performance.now() - startedAt),
+      });
+    },
+  };
+}
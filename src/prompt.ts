@@ -0,0 +1,136 @@
+import { getMessages } from "./i18n.ts";
+import { exitCodes, exitWithLogs } from "./logger.ts";
+
+const encoder = new TextEncoder();
+
+/**
+ * CI環境で実行されているかどうかを判定する関数
+ * 環境変数の読み取り権限がない場合はCI環境ではないとみなします。
+ * @returns CI環境の場合は true
+ */
+export function isCI(): boolean {
+  try {
+    const ci = Deno.env.get("CI");
+    return ci !== undefined && ci !== "" && ci !== "0" && ci !== "false";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 対話的な入力を受け付けられる環境かどうかを判定する関数
+ * 標準入力が端末 (TTY) であり、CI環境でない場合に true を返します。
+ * @returns 対話的な入力が可能な場合は true
+ */
+export function isInteractiveTerminal(): boolean {
+  return Deno.stdin.isTerminal() && !isCI();
+}
+
+/**
+ * テキストの入力を求める関数
+ * @param message 表示するメッセージ
+ * @returns 入力された文字列 (EOFの場合は null)
+ */
+export function promptText(message: string): string | null {
+  return prompt(message);
+}
+
+/**
+ * 入力内容を伏せ字で表示しながらテキストの入力を求める関数
+ * 秘密鍵やパスワードの入力に使用します。
+ * Ctrl+C が押された場合は、ログファイルを閉じてから終了コード130で終了します。
+ * @param message 表示するメッセージ
+ * @returns 入力された文字列 (EOFの場合は null)
+ */
+export function promptSecret(message: string): string | null {
+  Deno.stdout.writeSync(encoder.encode(`${message} `));
+  // マルチバイト文字を1文字ずつ削除できるよう、入力はコードポイント単位で保持する
+  const inputChars: string[] = [];
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(1024);
+  let reachedEof = false;
+
+  Deno.stdin.setRaw(true);
+  try {
+    reading: while (true) {
+      const readCount = Deno.stdin.readSync(buffer);
+      if (readCount === null) {
+        reachedEof = true;
+        break;
+      }
+      for (const byte of buffer.subarray(0, readCount)) {
+        if (byte === 0x03) { // Ctrl+C
+          Deno.stdin.setRaw(false);
+          Deno.stdout.writeSync(encoder.encode("\n"));
+          exitWithLogs(exitCodes.interrupted);
+        } else if (byte === 0x04) { // Ctrl+D
+          reachedEof = inputChars.length === 0;
+          break reading;
+        } else if (byte === 0x0d || byte === 0x0a) { // Enter
+          break reading;
+        } else if (byte === 0x7f || byte === 0x08) { // Backspace
+          if (inputChars.length > 0) {
+            inputChars.pop();
+            Deno.stdout.writeSync(encoder.encode("\b \b"));
+          }
+        } else {
+          // 文字の途中のバイトは、残りのバイトを受け取るまで decoder が保持する
+          const chars = Array.from(
+            decoder.decode(Uint8Array.of(byte), { stream: true }),
+          );
+          inputChars.push(...chars);
+          Deno.stdout.writeSync(encoder.encode("*".repeat(chars.length)));
+        }
+      }
+    }
+  } finally {
+    Deno.stdin.setRaw(false);
+    Deno.stdout.writeSync(encoder.encode("\n"));
+  }
+
+  return reachedEof ? null : inputChars.join("");
+}
+
+/**
+ * 選択肢の一覧から選択を求める関数
+ * 番号または選択肢の値そのものの入力を受け付け、不正な入力の場合は再入力を求めます。
+ * @param message 表示するメッセージ
+ * @param choices 選択肢の一覧
+ * @param locale メッセージの言語
+ * @returns 選択された値 (EOFの場合は null)
+ */
+export function promptSelect<T>(
+  message: string,
+  choices: T[],
+  locale?: string,
+): T | null {
+  const messages = getMessages(locale);
+  console.info(message);
+  choices.forEach((choice, index) => {
+    console.info(`  ${index + 1}) ${String(choice)}`);
+  });
+  while (true) {
+    const input = prompt(messages.selectNumber(choices.length));
+    if (input === null) return null;
+    const trimmed = input.trim();
+    const index = Number(trimmed);
+    if (Number.isInteger(index) && index >= 1 && index <= choices.length) {
+      return choices[index - 1];
+    }
+    const matched = choices.find((choice) => String(choice) === trimmed);
+    if (matched !== undefined) return matched;
+    console.error(messages.invalidSelection(trimmed));
+  }
+}
+
+/**
+ * はい/いいえの確認を求める関数
+ * @param message 表示するメッセージ
+ * @param defaultValue 何も入力されなかった場合の値
+ * @returns はいの場合は true (EOFの場合は defaultValue)
+ */
+export function promptConfirm(message: string, defaultValue = false): boolean {
+  const input = prompt(`${message} ${defaultValue ? "[Y/n]" : "[y/N]"}`);
+  if (input === null || input.trim() === "") return defaultValue;
+  return /^y(es)?$/i.test(input.trim());
+}
@@ -0,0 +1,227 @@
+import type { LogRecord } from "@logtape/logtape";
+import { english } from "viem/accounts";
+
+/**
+ * 秘密情報を置き換える文字列
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * パターンによる秘密情報のマスクに関する設定
+ */
+export interface RedactionOptions {
+  /**
+   * 登録されていない64桁の16進数 (秘密鍵の形式) もマスクする (デフォルト: true)
+   * hashKeys のプロパティの値と、メッセージ中でそれらの名前の直後にある値はハッシュとして扱い、マスクしません。
+   */
+  hexKeys?: boolean;
+  /**
+   * ハッシュ (トランザクションハッシュなど) の値を持つプロパティ名
+   * (デフォルト: hash, txHash, transactionHash, blockHash)
+   */
+  hashKeys?: string[];
+  /** BIP39の英単語が12語以上連続する部分 (ニーモニック) をマスクする (デフォルト: true) */
+  mnemonics?: boolean;
+  /** 追加でマスクする正規表現 (g フラグを付けること) */
+  patterns?: RegExp[];
+}
+
+// 値を登録してマスクする秘密情報の最小の長さ (短すぎる値で無関係な文字列をマスクしないため)
+const MIN_SECRET_VALUE_LENGTH = 4;
+const MIN_MNEMONIC_WORDS = 12;
+// 英小文字の単語が MIN_MNEMONIC_WORDS 語以上連続する部分 (ニーモニックの候補)
+const WORD_SEQUENCE_PATTERN = new RegExp(
+  `\\b[a-z]+(?:\\s+[a-z]+){${MIN_MNEMONIC_WORDS - 1},}\\b`,
+  "g",
+);
+const mnemonicWords = new Set(english);
+
+// 秘密情報として扱うプロパティ名
+const secretKeys = new Set<string>();
+// 秘密情報の値
+const secretValues = new Set<string>();
+let redactionOptions: Required<RedactionOptions> = {
+  hexKeys: true,
+  hashKeys: ["hash", "txHash", "transactionHash", "blockHash"],
+  mnemonics: true,
+  patterns: [],
+};
+
+// 64桁の16進数に一致する正規表現を作成するヘルパー関数
+// 直前にハッシュのプロパティ名がある場合 (例: "txHash: 0x..", "\"hash\":\"0x..\"") は1番目のグループに一致する
+function createHexKeyPattern(hashKeys: string[]): RegExp {
+  const escapedKeys = hashKeys.map((key) =>
+    key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  );
+  // ハッシュのプロパティ名がない場合は、1番目のグループが常に一致しないようにする
+  const hashKeyPrefix = escapedKeys.length > 0
+    ? `(\\b(?:${escapedKeys.join("|")})["']?\\s*[:=]?\\s*["']?)?`
+    : "((?!))?";
+  return new RegExp(`${hashKeyPrefix}\\b(?:0x)?[0-9a-fA-F]{64}\\b`, "g");
+}
+
+let hexKeyPattern = createHexKeyPattern(redactionOptions.hashKeys);
+
+/**
+ * 秘密情報として扱うプロパティ名を登録する関数
+ * 登録したプロパティの値は、ログのプロパティのどの階層にあってもマスクされます。
+ * processArgs は `.meta({ secret: true })` が指定されたフィールドを自動で登録します。
+ * @param keys プロパティ名 (例: "privateKey")
+ */
+export function registerSecretKeys(...keys: string[]): void {
+  for (const key of keys) secretKeys.add(key);
+}
+
+/**
+ * 秘密情報の値を登録する関数
+ * 登録した値は、ログのメッセージや文字列のプロパティに含まれる場合にマスクされます。
+ * processArgs は `.meta({ secret: true })` が指定されたフィールドの値を自動で登録します。
+ * @param values 秘密情報の値 (4文字未満の値は無視される)
+ */
+export function registerSecretValues(...values: string[]): void {
+  for (const value of values) {
+    if (value.length >= MIN_SECRET_VALUE_LENGTH) secretValues.add(value);
+  }
+}
+
+/**
+ * パターンによる秘密情報のマスクを設定する関数
+ * @param options 変更する設定 (指定しなかった項目は現在の設定のまま)
+ */
+export function configureRedaction(options: RedactionOptions): void {
+  redactionOptions = { ...redactionOptions, ...options };
+  hexKeyPattern = createHexKeyPattern(redactionOptions.hashKeys);
+}
+
+// 単語の並びのうち、BIP39の単語が MIN_MNEMONIC_WORDS 語以上連続する部分をマスクするヘルパー関数
+function redactMnemonicWords(sequence: string): string {
+  const tokens = sequence.split(/(\s+)/); // 偶数番目が単語、奇数番目が空白
+  const wordCount = (tokens.length + 1) / 2;
+  let redacted = "";
+  let start = 0;
+  while (start < wordCount) {
+    let end = start;
+    while (end < wordCount && mnemonicWords.has(tokens[end * 2])) end++;
+    if (end - start >= MIN_MNEMONIC_WORDS) {
+      redacted += REDACTED;
+    } else {
+      end = Math.max(end, start + 1);
+      redacted += tokens.slice(start * 2, end * 2 - 1).join("");
+    }
+    if (end < wordCount) redacted += tokens[end * 2 - 1];
+    start = end;
+  }
+  return redacted;
+}
+
+/**
+ * 文字列に含まれる秘密情報をマスクする関数
+ * 登録された秘密情報の値と、設定に応じて秘密鍵・ニーモニックの形式の文字列を置き換えます。
+ * @param text 対象の文字列
+ * @returns マスクした文字列
+ */
+export function redactText(text: string): string {
+  return redactTextInternal(text, true);
+}
+
+// ハッシュのプロパティの値では64桁の16進数をマスクしないよう、maskHexKeys で切り替えるヘルパー関数
+function redactTextInternal(text: string, maskHexKeys: boolean): string {
+  let redacted = text;
+  for (const value of secretValues) {
+    redacted = redacted.replaceAll(value, REDACTED);
+  }
+  if (redactionOptions.hexKeys && maskHexKeys) {
+    redacted = redacted.replace(
+      hexKeyPattern,
+      (match, hashKeyPrefix?: string) =>
+        hashKeyPrefix === undefined ? REDACTED : match,
+    );
+  }
+  if (redactionOptions.mnemonics) {
+    redacted = redacted.replace(WORD_SEQUENCE_PATTERN, redactMnemonicWords);
+  }
+  for (const pattern of redactionOptions.patterns) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * 値に含まれる秘密情報をマスクする関数
+ * 文字列・配列・プレーンなオブジェクト・Errorを再帰的にたどり、秘密情報として登録された
+ * プロパティ名の値と、文字列に含まれる秘密情報を置き換えます。元の値は変更しません。
+ * @param value 対象の値
+ * @returns マスクした値 (その他のオブジェクトはそのまま返す)
+ */
+export function redactValue(value: unknown): unknown {
+  return redactValueInternal(value, new WeakMap(), true);
+}
+
+// 循環参照に対応するため、たどったオブジェクトとマスク後の値を記録しながら再帰するヘルパー関数
+function redactValueInternal(
+  value: unknown,
+  visited: WeakMap<object, unknown>,
+  maskHexKeys: boolean,
+): unknown {
+  if (typeof value === "string") return redactTextInternal(value, maskHexKeys);
+  if (typeof value !== "object" || value === null) return value;
+  if (visited.has(value)) return visited.get(value);
+
+  if (Array.isArray(value)) {
+    const redactedArray: unknown[] = [];
+    visited.set(value, redactedArray);
+    for (const element of value) {
+      redactedArray.push(redactValueInternal(element, visited, maskHexKeys));
+    }
+    return redactedArray;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  const isError = value instanceof Error;
+  if (!isError && prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+  // Error はクラスを保ったまま、message や stack などの独自のプロパティをマスクする
+  const redactedObject: Record<string, unknown> = Object.create(prototype);
+  visited.set(value, redactedObject);
+  for (const key of Object.getOwnPropertyNames(value)) {
+    const propertyValue = (value as Record<string, unknown>)[key];
+    redactedObject[key] = secretKeys.has(key) && propertyValue !== undefined
+      ? REDACTED
+      : redactValueInternal(
+        propertyValue,
+        visited,
+        maskHexKeys && !redactionOptions.hashKeys.includes(key),
+      );
+  }
+  return redactedObject;
+}
+
+/**
+ * ログレコードのメッセージとプロパティに含まれる秘密情報をマスクする関数
+ * @param record 対象のログレコード
+ * @returns マスクしたログレコード
+ */
+export function redactRecord(record: LogRecord): LogRecord {
+  // メッセージの値 (奇数番目) に対応するプレースホルダー名 (ハッシュのプロパティの値を判別するため)
+  const placeholders = typeof record.rawMessage === "string"
+    ? [...record.rawMessage.replace(/\{\{|\}\}/g, "").matchAll(/\{([^{}]*)\}/g)]
+      .map((match) => match[1].trim())
+    : [];
+  return {
+    ...record,
+    message: record.message.map((part, index) =>
+      redactValueInternal(
+        part,
+        new WeakMap(),
+        index % 2 === 0 ||
+          !redactionOptions.hashKeys.includes(placeholders[(index - 1) / 2]),
+      )
+    ),
+    // プレースホルダーを使わずに値を埋め込んだメッセージに備え、元のメッセージもマスクする
+    rawMessage: typeof record.rawMessage === "string"
+      ? redactText(record.rawMessage)
+      : record.rawMessage,
+    properties: redactValue(record.properties) as Record<string, unknown>,
+  };
+}
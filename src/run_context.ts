@@ -0,0 +1,82 @@
+import { withContext } from "@logtape/logtape";
+
+/**
+ * スクリプトの1回の実行を識別する情報
+ * createLogger で作成したロガーは、全てのログレコードのプロパティにこの情報を付加します。
+ */
+export interface RunContext {
+  /** 実行ごとに一意なID (並行して実行されたスクリプトのログを区別するために使用) */
+  runId: string;
+  /** ホスト名 (取得が許可されていない場合は undefined) */
+  host?: string;
+  pid: number;
+  /** コマンドライン引数 (秘密情報はログの出力時にマスクされる) */
+  argv: string[];
+  /** スクリプトのディレクトリのgitのコミットハッシュ (取得できない場合は undefined) */
+  gitCommit?: string;
+  /** プロセスの開始時刻 (ISO 8601形式) */
+  startedAt: string;
+}
+
+// ホスト名を取得するヘルパー関数 (権限の確認ダイアログを表示しないよう、許可されている場合のみ取得する)
+function detectHostname(): string | undefined {
+  const { state } = Deno.permissions.querySync({
+    name: "sys",
+    kind: "hostname",
+  });
+  return state === "granted" ? Deno.hostname() : undefined;
+}
+
+// 実行中のスクリプトのディレクトリのgitのコミットハッシュを取得するヘルパー関数
+async function detectGitCommit(): Promise<string | undefined> {
+  const { state } = await Deno.permissions.query({
+    name: "run",
+    command: "git",
+  });
+  if (state !== "granted") return undefined;
+  try {
+    const { success, stdout } = await new Deno.Command("git", {
+      args: ["rev-parse", "HEAD"],
+      cwd: Deno.mainModule.startsWith("file:")
+        ? new URL(".", Deno.mainModule)
+        : undefined,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    return success ? new TextDecoder().decode(stdout).trim() : undefined;
+  } catch {
+    // git がインストールされていない場合など
+    return undefined;
+  }
+}
+
+/**
+ * 現在のプロセスの実行を識別する情報を作成する関数
+ * @param runId 実行ID (省略時はランダムなUUID。親プロセスから受け取ったIDで関連付ける場合に指定する)
+ * @returns 実行を識別する情報
+ */
+export async function createRunContext(runId?: string): Promise<RunContext> {
+  return {
+    runId: runId ?? crypto.randomUUID(),
+    host: detectHostname(),
+    pid: Deno.pid,
+    argv: [...Deno.args],
+    gitCommit: await detectGitCommit(),
+    startedAt: new Date(performance.timeOrigin).toISOString(),
+  };
+}
+
+/**
+ * 処理のまとまりの間だけ、ログレコードにプロパティを付加する関数
+ * callback の中 (非同期処理を含む) で出力された全てのログに properties が付加されます。
+ * 入れ子にした場合は、外側のプロパティに内側のプロパティが追加されます。
+ * @param properties 付加するプロパティ (例: { txHash: "0x..." })
+ * @param callback プロパティを付加する処理
+ * @returns callback の戻り値
+ */
+export function withLogContext<T>(
+  properties: Record<string, unknown>,
+  callback: () => T,
+): T {
+  return withContext(properties, callback);
+}
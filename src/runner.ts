@@ -0,0 +1,218 @@
+import type { Logger } from "@logtape/logtape";
+import { err, ok, type Result } from "neverthrow";
+import type { z } from "zod@next";
+import {
+  type PositionalArgsShape,
+  processArgs,
+  type ProcessArgsOptions,
+} from "./args.ts";
+import {
+  createLogger,
+  disposeLoggers,
+  exitCodes,
+  exitWithLogs,
+  type LoggerOptions,
+  type LogLevel,
+} from "./logger.ts";
+import {
+  describeError,
+  type OutputData,
+  type OutputFormat,
+  outputFormats,
+  printError,
+  printOutput,
+} from "./output.ts";
+
+/**
+ * コマンドの処理に渡される実行時の情報
+ */
+export interface CommandContext<A> {
+  /** 検証済みの引数 */
+  args: A;
+  /** 解析した logLevel で作成したロガー (カテゴリは commandName) */
+  logger: Logger;
+  /** SIGINT/SIGTERM を受信した時点で中断が要求される AbortSignal */
+  signal: AbortSignal;
+  commandName: string;
+}
+
+/**
+ * defineCommand で定義するコマンド
+ * 引数の解析の設定 (ProcessArgsOptions) に加えて、ロガーの設定と処理を指定します。
+ */
+export interface CommandSpec<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+  T extends OutputData | void = void,
+> extends ProcessArgsOptions<S, P> {
+  /** ログディレクトリ (createLogger の logDir、デフォルト: "logs") */
+  logDir?: string;
+  /** createLogger に渡すオプション (省略時、--output が text 以外ならログを標準エラー出力に出力) */
+  loggerOptions?: LoggerOptions;
+  /** run の前に呼び出す処理 (エラーを返した場合は run を呼び出さずに終了する) */
+  beforeRun?: (
+    ctx: CommandContext<z.infer<S> & z.infer<z.ZodObject<P>>>,
+  ) => Result<void, Error> | Promise<Result<void, Error>>;
+  /** コマンドの処理 (返した結果は --output の形式で標準出力に出力する) */
+  run: (
+    ctx: CommandContext<z.infer<S> & z.infer<z.ZodObject<P>>>,
+  ) => Result<T, Error> | Promise<Result<T, Error>>;
+  /** ログファイルを閉じる前に、終了コードを受け取って呼び出す後処理 (接続の切断など) */
+  onExit?: (
+    ctx: CommandContext<z.infer<S> & z.infer<z.ZodObject<P>>>,
+    exitCode: number,
+  ) => void | Promise<void>;
+}
+
+const DEFAULT_LOG_DIR = "logs";
+
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+// 中断を要求するシグナル
+const INTERRUPT_SIGNALS: readonly Deno.Signal[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * コマンドを定義する関数
+ * 引数の型から run などの ctx.args の型を推論するために使用します。
+ * @param spec 引数の解析の設定と処理
+ * @returns 渡したコマンドの定義 (runCommand に渡す)
+ */
+export function defineCommand<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+  T extends OutputData | void = void,
+>(spec: CommandSpec<S, P, T>): CommandSpec<S, P, T> {
+  return spec;
+}
+
+// 中断を要求するシグナルのリスナーを登録し、登録を解除する関数を返すヘルパー関数
+function listenInterruptSignals(
+  controller: AbortController,
+  logger: Logger,
+): () => void {
+  const listeners = new Map<Deno.Signal, () => void>();
+  for (const signal of INTERRUPT_SIGNALS) {
+    const listener = () => {
+      if (controller.signal.aborted) {
+        logger.warn("{signal} を再度受信したため、強制終了します", { signal });
+        exitWithLogs(exitCodes.interrupted);
+      }
+      logger.warn(
+        "{signal} を受信しました。処理を中断しています (もう一度送ると強制終了します)",
+        { signal },
+      );
+      controller.abort(
+        new DOMException(`Interrupted by ${signal}`, "AbortError"),
+      );
+    };
+    try {
+      Deno.addSignalListener(signal, listener);
+      listeners.set(signal, listener);
+    } catch {
+      // Windows では SIGTERM を監視できないため、監視できるシグナルのみ登録する
+    }
+  }
+  return () => {
+    for (const [signal, listener] of listeners) {
+      Deno.removeSignalListener(signal, listener);
+    }
+  };
+}
+
+/**
+ * コマンドを実行し、終了コードでプロセスを終了する関数
+ * 1. 引数を解析します (ヘルプの表示は終了コード0、検証エラーは終了コード2で終了)。
+ * 2. 解析した logLevel でロガーを作成し、SIGINT/SIGTERM を受信すると ctx.signal で中断を要求します。
+ * 3. beforeRun と run を呼び出し、run が返した結果を --output の形式で標準出力に出力します。
+ * 4. エラーはロガーに記録し (--output が text 以外の場合はJSONでも出力)、
+ *    describeError の終了コード (実行時のエラーは1、中断は130) で終了します。
+ * 5. onExit を呼び出し、ログファイルを閉じてから終了します。
+ * @param spec defineCommand で定義したコマンド
+ * @param rawDenoArgs Deno.argsから取得した生の引数配列 (デフォルト: Deno.args)
+ */
+export async function runCommand<
+  // Reason: ZodObject's generic type parameters are complex.
+  // deno-lint-ignore no-explicit-any
+  S extends z.ZodObject<any, any>,
+  P extends PositionalArgsShape = Record<never, never>,
+  T extends OutputData | void = void,
+>(
+  spec: CommandSpec<S, P, T>,
+  rawDenoArgs: string[] = Deno.args,
+): Promise<never> {
+  const args = processArgs(rawDenoArgs, spec);
+  const { logLevel, output } = args as { logLevel?: unknown; output?: unknown };
+  const format: OutputFormat = outputFormats.includes(output as OutputFormat)
+    ? output as OutputFormat
+    : "text";
+  const logger = await createLogger(
+    spec.commandName,
+    LOG_LEVELS.includes(logLevel as LogLevel) ? logLevel as LogLevel : "info",
+    spec.logDir ?? DEFAULT_LOG_DIR,
+    {
+      ...spec.loggerOptions,
+      // 構造化した出力をパイプで受け渡せるよう、ログを標準出力に混ぜない
+      stderr: spec.loggerOptions?.stderr ?? format !== "text",
+    },
+  );
+  const controller = new AbortController();
+  const removeSignalListeners = listenInterruptSignals(controller, logger);
+  const ctx: CommandContext<typeof args> = {
+    args,
+    logger,
+    signal: controller.signal,
+    commandName: spec.commandName,
+  };
+
+  let result: Result<T | void, Error>;
+  try {
+    const beforeResult = spec.beforeRun ? await spec.beforeRun(ctx) : ok();
+    result = beforeResult.isErr()
+      ? err(beforeResult.error)
+      : await spec.run(ctx);
+  } catch (error: unknown) {
+    result = err(error instanceof Error ? error : new Error(String(error)));
+  }
+  removeSignalListeners();
+
+  let exitCode: number;
+  if (result.isOk()) {
+    if (result.value !== undefined) {
+      printOutput(result.value, { format, locale: spec.locale });
+    }
+    exitCode = controller.signal.aborted
+      ? exitCodes.interrupted
+      : exitCodes.success;
+  } else if (controller.signal.aborted) {
+    logger.warn("{command} を中断しました: {error}", {
+      command: spec.commandName,
+      error: result.error.message,
+    });
+    exitCode = format === "text"
+      ? exitCodes.interrupted
+      : printError(controller.signal.reason, { format, locale: spec.locale });
+  } else {
+    logger.error("{command} の実行に失敗しました: {error}", {
+      command: spec.commandName,
+      error: result.error.message,
+    });
+    exitCode = format === "text"
+      ? describeError(result.error).exitCode
+      : printError(result.error, { format, locale: spec.locale });
+  }
+
+  try {
+    await spec.onExit?.(ctx, exitCode);
+  } catch (error: unknown) {
+    logger.error("終了時の処理でエラーが発生しました: {error}", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  Deno.exitCode = exitCode;
+  await disposeLoggers();
+  Deno.exit(exitCode);
+}
@@ -1,5 +1,12 @@
 import { z } from "zod@next";
 import type { HelpSection } from "./args.ts"; // HelpSection をインポート
+import { withHelpGroup } from "./help.ts";
+import { resolveLocale } from "./i18n.ts";
+import { getNetworks } from "./networks.ts";
+
+// Ethereum関連の引数をヘルプでまとめるグループ名
+const ETH_ARGS_GROUP = "Ethereum関連オプション";
+const ETH_ARGS_GROUPS = { en: "Ethereum options" };
 
 /**
  * 基本引数スキーマ
@@ -17,44 +24,317 @@ export const BaseArgsSchema: z.ZodObject<{
 }> = z.object({
   logLevel: z.enum(["debug", "info", "warn", "error"]).default("info").meta({
     description: "ログの出力レベル",
+    descriptions: { en: "Log level" },
     alias: "l",
+    group: "基本オプション",
+    groups: { en: "Basic options" },
   }),
 });
 
+const DEFAULT_NETWORK = "sepolia";
+
+/**
+ * createNetworkArgsSchema で作成するスキーマの型
+ * network には、スキーマの作成時点で登録されているネットワーク名のいずれかが入ります。
+ */
+export type NetworkArgsSchemaType = z.ZodObject<{
+  network: z.ZodDefault<z.ZodEnum<{ [name: string]: string }>>;
+}>;
+
 /**
- * ネットワーク指定に関する引数スキーマ
- * 接続するブロックチェーンネットワークを指定します。
+ * ネットワーク指定に関する引数スキーマを作成する関数
+ * 指定できる値は、作成時点で登録されているネットワーク (registerNetwork, loadNetworkConfig) です。
+ * @param defaultNetwork デフォルトのネットワーク名 (デフォルト: "sepolia")
+ * @returns ネットワーク指定に関する引数スキーマ
+ * @throws defaultNetwork が登録されていないネットワークの場合
  */
-const NetworkArgsSchema = z.object({
-  network: z.enum(["sepolia", "kaia"]) // TODO: 利用可能なネットワークを動的に設定できるようにする
-    .default("sepolia")
-    .meta({
-      description: "接続するネットワーク (例: sepolia, kaia)",
-      alias: "n",
+export function createNetworkArgsSchema(
+  defaultNetwork: string = DEFAULT_NETWORK,
+): NetworkArgsSchemaType {
+  const names = getNetworks().map((network) => network.name);
+  // zod の default は enum の検証を通らないため、未登録のネットワークがデフォルトにならないよう作成時に確認する
+  if (!names.includes(defaultNetwork)) {
+    throw new Error(
+      `Unknown default network: ${defaultNetwork} (registered networks: ${
+        names.join(", ")
+      })`,
+    );
+  }
+  return withHelpGroup(
+    z.object({
+      network: z.enum(names as [string, ...string[]])
+        .default(defaultNetwork)
+        .meta({
+          description: "接続するネットワーク",
+          descriptions: { en: "Network to connect to" },
+          alias: "n",
+        }),
     }),
-});
+    ETH_ARGS_GROUP,
+    ETH_ARGS_GROUPS,
+  );
+}
 
 /**
  * 秘密鍵に関する引数スキーマ
  * トランザクション署名などに使用する秘密鍵を指定します。
  */
-const PrivateKeyArgsSchema = z.object({
-  privateKey: z.string().optional().meta({
-    description: "秘密鍵（環境変数からの読み込みを推奨）",
-    alias: "k",
+const PrivateKeyArgsSchema = withHelpGroup(
+  z.object({
+    privateKey: z.string().regex(
+      /^(0x)?[0-9a-fA-F]{64}$/,
+      "Private key must be 64 hex characters with an optional 0x prefix",
+    ).optional().meta({
+      description: "秘密鍵（環境変数からの読み込みを推奨）",
+      descriptions: {
+        en:
+          "Private key (reading it from an environment variable is recommended)",
+      },
+      alias: "k",
+      env: "PRIVATE_KEY",
+      secret: true,
+    }),
   }),
-});
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
 
 /**
  * RPC URLに関する引数スキーマ
  * ブロックチェーンネットワークへの接続に使用するRPC URLを指定します。
  */
-const RpcUrlArgsSchema = z.object({
-  rpcUrl: z.string().optional().meta({
-    description: "RPC URL（指定がない場合はデフォルト値を使用）",
-    alias: "r",
+const RpcUrlArgsSchema = withHelpGroup(
+  z.object({
+    rpcUrl: z.string().optional().meta({
+      description:
+        "RPC URL（省略時は環境変数 {NETWORK}_RPC_URL、またはネットワークのデフォルトを使用）",
+      descriptions: {
+        en:
+          "RPC URL ({NETWORK}_RPC_URL or the network default is used if omitted)",
+      },
+      alias: "r",
+      env: "RPC_URL",
+    }),
+  }),
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
+
+/**
+ * ニーモニックから署名用のアカウントを導出する引数スキーマ
+ * EthArgsSchema に結合し、解析結果を loadAccount に渡して使用します。
+ */
+export const MnemonicArgsSchema: z.ZodObject<{
+  mnemonic: z.ZodOptional<z.ZodString>;
+  addressIndex: z.ZodOptional<z.ZodNumber>;
+  derivationPath: z.ZodOptional<z.ZodString>;
+}> = withHelpGroup(
+  z.object({
+    mnemonic: z.string().optional().meta({
+      description: "BIP-39のニーモニック（環境変数からの読み込みを推奨）",
+      descriptions: {
+        en:
+          "BIP-39 mnemonic (reading it from an environment variable is recommended)",
+      },
+      env: "MNEMONIC",
+      secret: true,
+    }),
+    addressIndex: z.number().int().nonnegative().optional().meta({
+      description:
+        "ニーモニックから導出するアドレスのインデックス (デフォルト: 0)",
+      descriptions: {
+        en: "Address index to derive from the mnemonic (default: 0)",
+      },
+    }),
+    derivationPath: z.string().regex(
+      /^m\/44'\/60'(\/\d+'?)*$/,
+      "Derivation path must start with m/44'/60' (e.g. m/44'/60'/0'/0/0)",
+    ).optional().meta({
+      description: "ニーモニックから導出するパス (例: m/44'/60'/0'/0/0)",
+      descriptions: {
+        en: "Derivation path for the mnemonic (e.g. m/44'/60'/0'/0/0)",
+      },
+    }),
   }),
-});
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
+
+/**
+ * 暗号化されたJSONキーストアファイルから署名用のアカウントを読み込む引数スキーマ
+ * パスワードを省略した場合、loadAccount は端末で入力を求めます。
+ */
+export const KeystoreArgsSchema: z.ZodObject<{
+  keystore: z.ZodOptional<z.ZodString>;
+  keystorePassword: z.ZodOptional<z.ZodString>;
+}> = withHelpGroup(
+  z.object({
+    keystore: z.string().optional().meta({
+      description: "暗号化されたJSONキーストアファイルのパス",
+      descriptions: { en: "Path to an encrypted JSON keystore file" },
+      env: "KEYSTORE",
+      completion: "file",
+    }),
+    keystorePassword: z.string().optional().meta({
+      description: "キーストアのパスワード（省略時は入力を求める）",
+      descriptions: {
+        en: "Keystore password (prompted for if omitted)",
+      },
+      env: "KEYSTORE_PASSWORD",
+      secret: true,
+    }),
+  }),
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
+
+/**
+ * .env 形式のファイルから署名元を読み込む引数スキーマ
+ * ファイルの PRIVATE_KEY, PRIVATE_KEYS, MNEMONIC, KEYSTORE, KEYSTORE_PASSWORD を使用します。
+ */
+export const EnvFileArgsSchema: z.ZodObject<{
+  envFile: z.ZodOptional<z.ZodString>;
+}> = withHelpGroup(
+  z.object({
+    envFile: z.string().optional().meta({
+      description: "秘密鍵やニーモニックを記述した .env 形式のファイルのパス",
+      descriptions: {
+        en: "Path to a .env file containing a private key or mnemonic",
+      },
+      completion: "file",
+    }),
+  }),
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
+
+/**
+ * 複数のアカウントを読み込む引数スキーマ (バッチ処理用)
+ * 解析結果を loadAccounts に渡して使用します。accountCount は MnemonicArgsSchema と組み合わせます。
+ */
+export const MultipleAccountsArgsSchema: z.ZodObject<{
+  privateKeys: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  accountCount: z.ZodOptional<z.ZodNumber>;
+}> = withHelpGroup(
+  z.object({
+    privateKeys: z.array(z.string()).optional().meta({
+      description: "複数の秘密鍵（カンマ区切り、環境変数からの読み込みを推奨）",
+      descriptions: {
+        en:
+          "Comma-separated private keys (reading them from an environment variable is recommended)",
+      },
+      env: "PRIVATE_KEYS",
+      secret: true,
+    }),
+    accountCount: z.number().int().positive().optional().meta({
+      description: "ニーモニックから導出するアカウントの数",
+      descriptions: {
+        en: "Number of accounts to derive from the mnemonic",
+      },
+    }),
+  }),
+  ETH_ARGS_GROUP,
+  ETH_ARGS_GROUPS,
+);
+
+/**
+ * 状態を変更する操作の前の確認に関する引数スキーマ
+ * 解析結果をそのまま confirmAction のオプションに展開して渡せます。
+ */
+export const ConfirmArgsSchema: z.ZodObject<{
+  dryRun: z.ZodDefault<z.ZodBoolean>;
+  yes: z.ZodDefault<z.ZodBoolean>;
+}> = withHelpGroup(
+  z.object({
+    dryRun: z.boolean().default(false).meta({
+      description: "実行内容を表示するだけで、実行しない",
+      descriptions: { en: "Show what would be done without doing it" },
+    }),
+    yes: z.boolean().default(false).meta({
+      description:
+        "確認を省略して実行する（端末以外からメインネットで実行する場合は必須）",
+      descriptions: {
+        en:
+          "Skip the confirmation (required on mainnet in non-interactive sessions)",
+      },
+      alias: "y",
+    }),
+  }),
+  "実行オプション",
+  { en: "Execution options" },
+);
+
+/**
+ * runBatch で使用するバッチ処理の引数スキーマ
+ * 解析結果をそのまま runBatch のオプションに展開して渡せます。
+ */
+export const BatchArgsSchema: z.ZodObject<{
+  resume: z.ZodDefault<z.ZodBoolean>;
+  retryFailed: z.ZodDefault<z.ZodBoolean>;
+  retryUnfinished: z.ZodDefault<z.ZodBoolean>;
+  concurrency: z.ZodDefault<z.ZodNumber>;
+  rateLimit: z.ZodOptional<z.ZodNumber>;
+}> = withHelpGroup(
+  z.object({
+    resume: z.boolean().default(false).meta({
+      description: "チェックポイントから再開し、完了した項目を読み飛ばす",
+      descriptions: {
+        en: "Resume from the checkpoint and skip completed items",
+      },
+    }),
+    retryFailed: z.boolean().default(false).meta({
+      description: "チェックポイントから再開し、失敗した項目を再実行する",
+      descriptions: {
+        en: "Resume from the checkpoint and retry failed items",
+      },
+    }),
+    retryUnfinished: z.boolean().default(false).meta({
+      description:
+        "チェックポイントから再開し、前回処理中に終了して結果が不明な項目を再実行する",
+      descriptions: {
+        en:
+          "Resume from the checkpoint and retry items whose result was not recorded",
+      },
+    }),
+    concurrency: z.number().int().positive().default(1).meta({
+      description: "同時に処理する件数",
+      descriptions: { en: "Number of items to process concurrently" },
+    }),
+    rateLimit: z.number().positive().optional().meta({
+      description: "1秒あたりに開始する件数の上限",
+      descriptions: { en: "Maximum number of items to start per second" },
+    }),
+  }),
+  "バッチ処理オプション",
+  { en: "Batch options" },
+);
+
+/**
+ * コマンドの結果の出力形式に関する引数スキーマ
+ * 解析結果の output を printOutput や exitWithError の format に渡します。
+ */
+export const OutputArgsSchema: z.ZodObject<{
+  output: z.ZodDefault<
+    z.ZodEnum<{
+      text: "text";
+      json: "json";
+      jsonl: "jsonl";
+      csv: "csv";
+    }>
+  >;
+}> = withHelpGroup(
+  z.object({
+    output: z.enum(["text", "json", "jsonl", "csv"]).default("text").meta({
+      description: "結果の出力形式（text 以外ではエラーもJSONで出力）",
+      descriptions: {
+        en:
+          "Output format for results (errors are printed as JSON unless text)",
+      },
+    }),
+  }),
+  "出力オプション",
+  { en: "Output options" },
+);
 
 export const baseArgsHelpInfo: HelpSection = {
   title: "基本オプション",
@@ -64,21 +344,115 @@ export const baseArgsHelpInfo: HelpSection = {
   },
 };
 
+/**
+ * createEthArgsSchema で作成するスキーマの型
+ */
+export type EthArgsSchemaType = z.ZodObject<
+  & (typeof BaseArgsSchema)["shape"]
+  & NetworkArgsSchemaType["shape"]
+  & {
+    privateKey: z.ZodOptional<z.ZodString>;
+    rpcUrl: z.ZodOptional<z.ZodString>;
+  }
+>;
+
+/**
+ * Ethereum関連の操作に必要な引数をまとめたスキーマを作成する関数
+ * BaseArgsSchema と、ネットワーク・秘密鍵・RPC URLの引数スキーマを結合します。
+ * registerNetwork や loadNetworkConfig でネットワークを追加した場合は、追加した後に作成してください。
+ * @param defaultNetwork デフォルトのネットワーク名 (デフォルト: "sepolia")
+ * @returns Ethereum関連の引数スキーマ
+ * @throws defaultNetwork が登録されていないネットワークの場合
+ */
+export function createEthArgsSchema(
+  defaultNetwork: string = DEFAULT_NETWORK,
+): EthArgsSchemaType {
+  return BaseArgsSchema
+    .merge(createNetworkArgsSchema(defaultNetwork))
+    .merge(PrivateKeyArgsSchema)
+    .merge(RpcUrlArgsSchema)
+    .describe("Ethereumネットワーク操作に関連する引数");
+}
+
 /**
  * Ethereum関連の操作に必要な引数をまとめたスキーマ
- * BaseArgsSchema, NetworkArgsSchema, PrivateKeyArgsSchema, RpcUrlArgsSchema を結合します。
+ * デフォルトで登録されているネットワークを指定できます (ネットワークを追加する場合は createEthArgsSchema を使用)。
  */
-export const EthArgsSchema: typeof BaseArgsSchema = BaseArgsSchema
-  .merge(NetworkArgsSchema)
-  .merge(PrivateKeyArgsSchema)
-  .merge(RpcUrlArgsSchema)
-  .describe("Ethereumネットワーク操作に関連する引数");
+export const EthArgsSchema: EthArgsSchemaType = createEthArgsSchema();
 
-export const ethArgsHelpInfo: HelpSection = {
-  title: "Ethereum関連オプション",
-  options: {
-    "--network, -n <sepolia|kaia>": "接続するネットワーク (デフォルト: sepolia)",
-    "--private-key, -k <string>": "秘密鍵（環境変数 PRIVATE_KEY も利用可能）",
-    "--rpc-url, -r <string>": "RPC URL（オプション）",
+// 言語ごとの Ethereum関連オプションのヘルプセクションを生成するヘルパー関数 (登録されているネットワークを反映する)
+function createEthArgsHelpInfo(
+  locale: "ja" | "en",
+  defaultNetwork: string,
+): HelpSection {
+  const networkHint = `<${
+    getNetworks().map((network) => network.name).join("|")
+  }>`;
+  return locale === "en"
+    ? {
+      title: "Ethereum options",
+      options: {
+        [`--network, -n ${networkHint}`]:
+          `Network to connect to (default: ${defaultNetwork})`,
+        "--private-key, -k <string>":
+          "Private key (PRIVATE_KEY environment variable is also supported)",
+        "--rpc-url, -r <string>":
+          "RPC URL (RPC_URL or {NETWORK}_RPC_URL environment variables, or the network default)",
+      },
+    }
+    : {
+      title: "Ethereum関連オプション",
+      options: {
+        [`--network, -n ${networkHint}`]:
+          `接続するネットワーク (デフォルト: ${defaultNetwork})`,
+        "--private-key, -k <string>":
+          "秘密鍵（環境変数 PRIVATE_KEY も利用可能）",
+        "--rpc-url, -r <string>":
+          "RPC URL（環境変数 RPC_URL, {NETWORK}_RPC_URL も利用可能。省略時はネットワークのデフォルト）",
+      },
+    };
+}
+
+export const ethArgsHelpInfo: HelpSection = createEthArgsHelpInfo(
+  "ja",
+  DEFAULT_NETWORK,
+);
+
+// 言語ごとの baseArgsHelpInfo
+const localizedBaseArgsHelpInfo: Record<string, HelpSection> = {
+  ja: baseArgsHelpInfo,
+  en: {
+    title: "Basic options",
+    options: {
+      "--log-level, -l <debug|info|warn|error>": "Log level (default: info)",
+    },
   },
 };
+
+/**
+ * 言語に合わせた baseArgsHelpInfo を取得する関数
+ * @param locale メッセージの言語 (省略時は環境変数から判定)
+ * @returns 基本オプションのヘルプセクション
+ */
+export function getBaseArgsHelpInfo(locale?: string): HelpSection {
+  return localizedBaseArgsHelpInfo[resolveLocale(locale)] ??
+    localizedBaseArgsHelpInfo.ja;
+}
+
+/**
+ * 言語に合わせた ethArgsHelpInfo を取得する関数
+ * 呼び出した時点で登録されているネットワークを、--network の値の一覧に表示します。
+ * @param locale メッセージの言語 (省略時は環境変数から判定)
+ * @param defaultNetwork ヘルプに表示するデフォルトのネットワーク名
+ *   (createEthArgsSchema に渡したものと同じ値、デフォルト: "sepolia")
+ * @returns Ethereum関連オプションのヘルプセクション
+ */
+export function getEthArgsHelpInfo(
+  locale?: string,
+  defaultNetwork: string = DEFAULT_NETWORK,
+): HelpSection {
+  return createEthArgsHelpInfo(
+    resolveLocale(locale) === "en" ? "en" : "ja",
+    defaultNetwork,
+  );
+}
@@ -0,0 +1,103 @@
+import { displayWidth } from "./help.ts";
+import { writeConsole } from "./logger.ts";
+
+/**
+ * 表の列の定義
+ */
+export interface TableColumn {
+  /** 行のオブジェクトのキー */
+  key: string;
+  /** 見出し (デフォルト: key) */
+  header?: string;
+  /** 揃える方向 (デフォルト: 数値の列は "right"、それ以外は "left") */
+  align?: "left" | "right";
+}
+
+/**
+ * formatTable関数に渡すオプションを定義するインターフェース
+ */
+export interface TableOptions {
+  /** 表示する列 (デフォルト: 全ての行に現れるキーを出現順に表示) */
+  columns?: (string | TableColumn)[];
+}
+
+const COLUMN_SEPARATOR = "  ";
+
+// セルの値を1行の文字列に変換するヘルパー関数
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string"
+    ? value
+    : typeof value === "object"
+    ? JSON.stringify(value, (_key, nestedValue) =>
+      typeof nestedValue === "bigint" ? nestedValue.toString() : nestedValue)
+    : String(value);
+  // 改行を含むと表が崩れるため、空白に置き換える
+  return text.replace(/\r?\n/g, " ");
+}
+
+// 表示幅に合わせて空白を補うヘルパー関数
+function padCell(text: string, width: number, align: "left" | "right"): string {
+  const padding = " ".repeat(width - displayWidth(text));
+  return align === "right" ? padding + text : text + padding;
+}
+
+/**
+ * オブジェクトの配列を、列を揃えた表の文字列に変換する関数
+ * 全角文字を幅2として桁を揃えます。
+ * @param rows 表示する行
+ * @param options 表示する列などの設定
+ * @returns 見出し・区切り線・各行からなる表 (末尾に改行を含む、行がない場合は空文字列)
+ */
+export function formatTable(
+  rows: Record<string, unknown>[],
+  options: TableOptions = {},
+): string {
+  if (rows.length === 0) return "";
+  const columns: TableColumn[] = (
+    options.columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))]
+  ).map((column) => typeof column === "string" ? { key: column } : column);
+
+  const cells = rows.map((row) =>
+    columns.map((column) => formatCell(row[column.key]))
+  );
+  const headers = columns.map((column) => column.header ?? column.key);
+  const widths = columns.map((_, index) =>
+    Math.max(
+      displayWidth(headers[index]),
+      ...cells.map((rowCells) => displayWidth(rowCells[index])),
+    )
+  );
+  const aligns = columns.map((column) =>
+    column.align ??
+      (rows.every((row) => {
+          const value = row[column.key];
+          return value === undefined || value === null ||
+            typeof value === "number" || typeof value === "bigint";
+        })
+        ? "right"
+        : "left")
+  );
+
+  const formatLine = (lineCells: string[]) =>
+    lineCells.map((cell, index) => padCell(cell, widths[index], aligns[index]))
+      .join(COLUMN_SEPARATOR).trimEnd();
+  return [
+    formatLine(headers),
+    widths.map((width) => "─".repeat(width)).join(COLUMN_SEPARATOR),
+    ...cells.map(formatLine),
+  ].map((line) => `${line}\n`).join("");
+}
+
+/**
+ * オブジェクトの配列を表として標準出力に出力する関数
+ * 進捗バーの表示中でも、進捗バーの上に出力されます。
+ * @param rows 表示する行
+ * @param options 表示する列などの設定
+ */
+export function printTable(
+  rows: Record<string, unknown>[],
+  options: TableOptions = {},
+): void {
+  writeConsole(formatTable(rows, options));
+}
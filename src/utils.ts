@@ -1,5 +1,7 @@
 import { err, ok, type Result } from "neverthrow";
 import { type PrivateKeyAccount, privateKeyToAccount } from "viem/accounts";
+import { parsePrivateKey } from "./accounts.ts";
+import { canReadEnv, readEnv } from "./config.ts";
 
 /**
  * 秘密鍵を環境変数または引数から取得し、PrivateKeyAccountを返却
@@ -10,31 +12,27 @@ export function getAccount(
   customPrivateKey?: string,
 ): Result<PrivateKeyAccount, Error> {
   try {
-    // 秘密鍵を取得
-    let privateKey: `0x${string}`;
-
-    if (customPrivateKey) {
-      // 0xプレフィックスがない場合は追加
-      privateKey = customPrivateKey.startsWith("0x")
-        ? customPrivateKey as `0x${string}`
-        : `0x${customPrivateKey}` as `0x${string}`;
-    } else {
-      // 環境変数から秘密鍵を取得
-      const envPrivateKey = Deno.env.get("PRIVATE_KEY");
-
-      if (!envPrivateKey) {
-        return err(
-          new Error(
-            "Private key must be provided either as an argument or as PRIVATE_KEY environment variable",
-          ),
-        );
-      }
-
-      // 0xプレフィックスがない場合は追加
-      privateKey = envPrivateKey.startsWith("0x")
-        ? envPrivateKey as `0x${string}`
-        : `0x${envPrivateKey}` as `0x${string}`;
+    // 秘密鍵を取得 (環境変数を読み取れない場合は、設定されていないとは判断できない)
+    if (!customPrivateKey && !canReadEnv("PRIVATE_KEY")) {
+      return err(
+        new Error(
+          "Reading the PRIVATE_KEY environment variable requires --allow-env (or pass the private key as an argument)",
+        ),
+      );
     }
+    const rawPrivateKey = customPrivateKey || readEnv("PRIVATE_KEY");
+    if (!rawPrivateKey) {
+      return err(
+        new Error(
+          "Private key must be provided either as an argument or as PRIVATE_KEY environment variable",
+        ),
+      );
+    }
+
+    // 形式を検証し、0xプレフィックスがない場合は追加
+    const privateKeyResult = parsePrivateKey(rawPrivateKey);
+    if (privateKeyResult.isErr()) return err(privateKeyResult.error);
+    const privateKey = privateKeyResult.value;
 
     // 秘密鍵からアカウントを作成
     const account = privateKeyToAccount(privateKey);